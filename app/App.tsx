@@ -2,16 +2,26 @@
 
 import { useCallback } from "react";
 import { ChatKitPanel, type FactAction } from "@/components/ChatKitPanel";
+import { EraseMyData } from "@/components/EraseMyData";
+import { SavedFactsPanel } from "@/components/SavedFactsPanel";
 import { useColorScheme } from "@/hooks/useColorScheme";
+import { useSavedFacts } from "@/hooks/useSavedFacts";
 
 export default function App() {
   const { scheme, setScheme } = useColorScheme();
+  const { facts, save, remove, refresh } = useSavedFacts();
 
-  const handleWidgetAction = useCallback(async (action: FactAction) => {
-    if (process.env.NODE_ENV !== "production") {
-      console.info("[ChatKitPanel] widget action", action);
-    }
-  }, []);
+  const handleWidgetAction = useCallback(
+    async (action: FactAction) => {
+      if (process.env.NODE_ENV !== "production") {
+        console.info("[ChatKitPanel] widget action", action);
+      }
+      if (action.type === "save" && action.factText) {
+        await save({ id: action.factId, text: action.factText });
+      }
+    },
+    [save]
+  );
 
   const handleResponseEnd = useCallback(() => {
     if (process.env.NODE_ENV !== "production") {
@@ -22,12 +32,14 @@ export default function App() {
   return (
     <main className="flex min-h-screen flex-col items-center justify-end bg-slate-100 dark:bg-slate-950">
       <div className="mx-auto w-full max-w-5xl">
+        <SavedFactsPanel facts={facts} onDelete={(id) => void remove(id)} />
         <ChatKitPanel
           theme={scheme}
           onWidgetAction={handleWidgetAction}
           onResponseEnd={handleResponseEnd}
           onThemeRequest={setScheme}
         />
+        <EraseMyData onErased={() => void refresh()} />
       </div>
     </main>
   );
@@ -1,12 +1,37 @@
-export const runtime = "edge";
+// Node runtime so the filesystem log store can be used outside Vercel.
+export const runtime = "nodejs";
 
 import { NextRequest, NextResponse } from "next/server";
-import { list, put, del } from "@vercel/blob";
+import { getLogStore } from "@/lib/logStore";
+import { isAdminRequest } from "@/lib/adminAuth";
+import {
+  compactDay,
+  daysInRange,
+  isDay,
+  pendingCompactionDays,
+  uncompactedDays,
+  type CompactionResult,
+} from "@/lib/compaction";
+
+// Leave headroom under the platform limit to save a checkpoint and respond.
+export const maxDuration = 60;
+const DEFAULT_TIME_BUDGET_MS = 45_000;
 
 /**
- * Authorisation:
- *  - Automatic cron: Authorization: Bearer <CRON_SECRET>
- *  - Manual: ?key=<LOG_ADMIN_KEY>
+ * Authorisation: see isAdminRequest (cron bearer or ?key=<LOG_ADMIN_KEY>).
+ *
+ * Large days are compacted across several calls: when the time budget
+ * (COMPACT_TIME_BUDGET_MS) runs out the day's result has `done: false` and
+ * the next call resumes from the saved checkpoint. Without `?day=`, any
+ * unfinished days are resumed before yesterday is compacted.
+ *
+ * Query:
+ *  - day=YYYY-MM-DD           compact one day (default: yesterday)
+ *  - from=YYYY-MM-DD&to=...   backfill every day in the range that still has
+ *                             per-event objects
+ *  - merge=1                  append late events to an existing NDJSON
+ *  - force=1                  drop any saved checkpoint and list the day again;
+ *                             lines already compacted are kept (as with merge)
  */
 
 function yyyymmddUTC(date: Date) {
@@ -16,73 +41,54 @@ function yyyymmddUTC(date: Date) {
   return `${d.getUTCFullYear()}-${p(d.getUTCMonth() + 1)}-${p(d.getUTCDate())}`;
 }
 
-function okAuth(req: NextRequest): boolean {
-  const auth = req.headers.get("authorization") || "";
-  const bearerOk = !!process.env.CRON_SECRET && auth === `Bearer ${process.env.CRON_SECRET}`;
-  if (bearerOk) return true;
-  const url = new URL(req.url);
-  const key = url.searchParams.get("key") ?? "";
-  return !!process.env.LOG_ADMIN_KEY && key === process.env.LOG_ADMIN_KEY;
+function timeBudgetMs(): number {
+  const configured = Number(process.env.COMPACT_TIME_BUDGET_MS);
+  return Number.isFinite(configured) && configured > 0
+    ? configured
+    : DEFAULT_TIME_BUDGET_MS;
 }
 
 export async function GET(req: NextRequest) {
-  if (!okAuth(req)) return new NextResponse("Forbidden", { status: 403 });
+  if (!isAdminRequest(req)) return new NextResponse("Forbidden", { status: 403 });
 
   const url = new URL(req.url);
   const force = url.searchParams.get("force") === "1";
-  const day = url.searchParams.get("day") || yyyymmddUTC(new Date());
-
-  const prefix = `logs/${day}/`;
-  const outKey = `logs/${day}.ndjson`;
+  const merge = url.searchParams.get("merge") === "1";
+  const requested = url.searchParams.get("day");
+  const from = url.searchParams.get("from");
+  const to = url.searchParams.get("to");
+  const deadline = Date.now() + timeBudgetMs();
+  const store = getLogStore();
 
-  // Skip if NDJSON already exists and not forcing
-  const existing = await list({ prefix: outKey, token: process.env.BLOB_READ_WRITE_TOKEN });
-  if (!force && existing.blobs.length > 0) {
-    return NextResponse.json({ ok: true, message: "Already compacted", day, outKey, written: false, deleted: 0 });
+  let days: string[];
+  if (from || to) {
+    let range: string[];
+    try {
+      range = daysInRange(from ?? "", to ?? "");
+    } catch (error) {
+      const message = error instanceof RangeError ? error.message : "Invalid range";
+      return NextResponse.json({ ok: false, error: message }, { status: 400 });
+    }
+    const pending = (await pendingCompactionDays(store)).filter((d) => range.includes(d));
+    const found = await uncompactedDays(store, range);
+    days = Array.from(new Set([...pending, ...found])).sort();
+  } else if (requested) {
+    if (!isDay(requested)) {
+      return NextResponse.json({ ok: false, error: "day must be a YYYY-MM-DD date" }, { status: 400 });
+    }
+    days = [requested];
+  } else {
+    days = Array.from(new Set([...(await pendingCompactionDays(store)), yyyymmddUTC(new Date())]));
   }
 
-  // Gather per-event JSON blobs
-  const items = await list({ prefix, token: process.env.BLOB_READ_WRITE_TOKEN });
-  const files = items.blobs.filter((b) => b.pathname.endsWith(".json"));
-
-  if (files.length === 0) {
-    return NextResponse.json({ ok: true, message: "No event files", day, written: false, deleted: 0 });
-  }
-
-  // Read each blob via HTTP (files are public)
-  const lines: string[] = [];
-  const batchSize = 40;
-  for (let i = 0; i < files.length; i += batchSize) {
-    const batch = files.slice(i, i + batchSize);
-    const parts = await Promise.all(
-      batch.map(async (b) => {
-        const r = await fetch(b.url);
-        const t = await r.text();
-        try {
-          const obj = JSON.parse(t);
-          return JSON.stringify(obj) + "\n";
-        } catch {
-          return t.endsWith("\n") ? t : t + "\n";
-        }
-      })
-    );
-    lines.push(...parts);
-  }
-
-  // Write NDJSON
-  await put(outKey, lines.join(""), {
-    access: "public",
-    addRandomSuffix: false,
-    contentType: "application/x-ndjson",
-    token: process.env.BLOB_READ_WRITE_TOKEN
-  });
-
-  // Delete originals
-  let deleted = 0;
-  for (const f of files) {
-    await del(f.pathname, { token: process.env.BLOB_READ_WRITE_TOKEN });
-    deleted += 1;
+  const results: CompactionResult[] = [];
+  for (const day of days) {
+    if (results.length > 0 && Date.now() >= deadline) break;
+    const result = await compactDay(store, { day, force, merge, deadline });
+    results.push(result);
+    if (!result.done && !result.inProgress) break;
   }
+  const remaining = days.slice(results.length);
 
-  return NextResponse.json({ ok: true, day, outKey, written: true, deleted });
+  return NextResponse.json({ ok: results.every((r) => r.ok), results, remaining });
 }
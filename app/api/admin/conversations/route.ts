@@ -0,0 +1,44 @@
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { getLogStore } from "@/lib/logStore";
+import { isAdminRequest } from "@/lib/adminAuth";
+import { daysFromQuery, readCompactedDays } from "@/lib/logFiles";
+import { groupConversations } from "@/lib/conversations";
+
+/**
+ * Returns compacted records grouped into whole conversations.
+ *
+ * Authorisation: see isAdminRequest (cron bearer or ?key=<LOG_ADMIN_KEY>).
+ *
+ * Query:
+ *  - day=YYYY-MM-DD           one compacted day, or
+ *  - from=YYYY-MM-DD&to=...   several days, so threads crossing midnight
+ *                             come back whole (at most 31 days)
+ *  - thread=<id>              only that ChatKit thread
+ */
+
+export async function GET(req: NextRequest) {
+  if (!isAdminRequest(req)) return new NextResponse("Forbidden", { status: 403 });
+
+  const url = new URL(req.url);
+  const thread = url.searchParams.get("thread");
+
+  let days: string[];
+  try {
+    days = daysFromQuery(url.searchParams);
+  } catch (error) {
+    const message = error instanceof RangeError ? error.message : "Invalid range";
+    return NextResponse.json({ ok: false, error: message }, { status: 400 });
+  }
+
+  const lines: string[] = [];
+  const { missing } = await readCompactedDays(getLogStore(), days, (_, dayLines) => {
+    lines.push(...dayLines);
+  });
+
+  const conversations = groupConversations(lines).filter(
+    (c) => !thread || c.threadId === thread
+  );
+  return NextResponse.json({ ok: true, days, missing, conversations });
+}
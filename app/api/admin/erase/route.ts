@@ -0,0 +1,53 @@
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+import { NextRequest, NextResponse } from "next/server";
+import { getLogStore } from "@/lib/logStore";
+import { isAdminRequest } from "@/lib/adminAuth";
+import { eraseSession } from "@/lib/erasure";
+import { deleteAllFacts } from "@/lib/facts";
+
+/**
+ * Authorisation: see isAdminRequest (cron bearer or ?key=<LOG_ADMIN_KEY>).
+ *
+ * Body: { "session_id": "<session id>" }, as stamped on the records (the id
+ * part of the chatkit_session_id cookie). Users erase their own data through
+ * /api/my-data, since the cookie is not readable in the browser.
+ *
+ * Deletes every stored record and saved fact for that session and returns
+ * the erasure receipt with the number of facts removed. When `complete` is
+ * false some days were being compacted or monthly rollups rebuilt; repeat
+ * the request to finish them.
+ */
+
+export async function POST(req: NextRequest) {
+  if (!isAdminRequest(req)) return new NextResponse("Forbidden", { status: 403 });
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "bad_request" }, { status: 400 });
+  }
+
+  const sessionId =
+    typeof body === "object" && body !== null
+      ? (body as { session_id?: unknown }).session_id
+      : undefined;
+  if (typeof sessionId !== "string" || sessionId.trim() === "") {
+    return NextResponse.json(
+      { ok: false, error: "session_id is required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const store = getLogStore();
+    const receipt = await eraseSession(store, sessionId);
+    const facts = await deleteAllFacts(store, sessionId);
+    return NextResponse.json({ ok: receipt.complete, receipt, facts });
+  } catch (err) {
+    console.error("[erase] error", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
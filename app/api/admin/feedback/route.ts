@@ -0,0 +1,37 @@
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { getLogStore } from "@/lib/logStore";
+import { isAdminRequest } from "@/lib/adminAuth";
+import { daysFromQuery, readCompactedDays } from "@/lib/logFiles";
+import { summariseFeedback } from "@/lib/feedback";
+
+/**
+ * Per-day answer ratings from compacted logs: up/down counts and each rating
+ * with its comment and, where the turn is found, the rated question and answer.
+ *
+ * Authorisation: see isAdminRequest (cron bearer or ?key=<LOG_ADMIN_KEY>).
+ *
+ * Query:
+ *  - day=YYYY-MM-DD           one compacted day, or
+ *  - from=YYYY-MM-DD&to=...   one summary per day (at most 31 days)
+ */
+
+export async function GET(req: NextRequest) {
+  if (!isAdminRequest(req)) return new NextResponse("Forbidden", { status: 403 });
+
+  let days: string[];
+  try {
+    days = daysFromQuery(new URL(req.url).searchParams);
+  } catch (error) {
+    const message = error instanceof RangeError ? error.message : "Invalid range";
+    return NextResponse.json({ ok: false, error: message }, { status: 400 });
+  }
+
+  const results: ({ day: string } & ReturnType<typeof summariseFeedback>)[] = [];
+  const { missing } = await readCompactedDays(getLogStore(), days, (day, lines) => {
+    results.push({ day, ...summariseFeedback(lines) });
+  });
+
+  return NextResponse.json({ ok: true, days: results, missing });
+}
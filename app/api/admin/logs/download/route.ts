@@ -0,0 +1,33 @@
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { getLogStore, verifySignedDownload } from "@/lib/logStore";
+
+/**
+ * Serves a log object to the holder of a link issued by /api/admin/logs when
+ * the log store has no native presigned URLs (the filesystem backend).
+ */
+
+function contentTypeFor(key: string): string {
+  if (key.endsWith(".gz")) return "application/gzip";
+  if (key.endsWith(".ndjson")) return "application/x-ndjson";
+  if (key.endsWith(".json")) return "application/json";
+  return "application/octet-stream";
+}
+
+export async function GET(req: NextRequest) {
+  const key = verifySignedDownload(new URL(req.url).searchParams);
+  if (!key) return new NextResponse("Forbidden", { status: 403 });
+
+  const bytes = await getLogStore().get(key);
+  if (!bytes) return new NextResponse("Not Found", { status: 404 });
+
+  const filename = key.split("/").pop() ?? "log";
+  return new NextResponse(Buffer.from(bytes), {
+    headers: {
+      "Content-Type": contentTypeFor(key),
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "private, no-store",
+    },
+  });
+}
@@ -0,0 +1,60 @@
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { getLogStore } from "@/lib/logStore";
+import { isAdminRequest } from "@/lib/adminAuth";
+import { isDay, manifestKey } from "@/lib/compaction";
+import { findDailyFile } from "@/lib/logFiles";
+
+/**
+ * Issues short-lived download links for a compacted day.
+ *
+ * Authorisation: see isAdminRequest (cron bearer or ?key=<LOG_ADMIN_KEY>).
+ *
+ * Query:
+ *  - day=YYYY-MM-DD   the day to link (required)
+ *
+ * Links expire after LOG_LINK_TTL_SECONDS (default 300, at most 3600).
+ */
+
+const DEFAULT_LINK_TTL_SECONDS = 300;
+const MAX_LINK_TTL_SECONDS = 3600;
+
+function linkTtlSeconds(): number {
+  const configured = Number(process.env.LOG_LINK_TTL_SECONDS);
+  return Number.isFinite(configured) && configured > 0
+    ? Math.min(configured, MAX_LINK_TTL_SECONDS)
+    : DEFAULT_LINK_TTL_SECONDS;
+}
+
+export async function GET(req: NextRequest) {
+  if (!isAdminRequest(req)) return new NextResponse("Forbidden", { status: 403 });
+
+  const url = new URL(req.url);
+  const day = url.searchParams.get("day") ?? "";
+  if (!isDay(day)) {
+    return NextResponse.json({ ok: false, error: "day must be a YYYY-MM-DD date" }, { status: 400 });
+  }
+
+  const store = getLogStore();
+  const ndjsonKey = await findDailyFile(store, day);
+  if (!ndjsonKey) {
+    return NextResponse.json({ ok: false, error: "not_compacted", day }, { status: 404 });
+  }
+
+  const ttl = linkTtlSeconds();
+  const expiresAt = new Date(Date.now() + ttl * 1000).toISOString();
+  const link = async (key: string) => ({
+    key,
+    url: new URL(await store.signedUrl(key, ttl), req.url).toString(),
+    expiresAt,
+  });
+
+  const files = [await link(ndjsonKey)];
+  const manifest = manifestKey(day);
+  if ((await store.list(manifest, { limit: 1 })).objects.some((o) => o.key === manifest)) {
+    files.push(await link(manifest));
+  }
+
+  return NextResponse.json({ ok: true, day, files });
+}
@@ -0,0 +1,31 @@
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+import { NextRequest, NextResponse } from "next/server";
+import { getLogStore } from "@/lib/logStore";
+import { isAdminRequest } from "@/lib/adminAuth";
+import { applyRetention, resolveRetentionPolicy } from "@/lib/retention";
+
+const DEFAULT_TIME_BUDGET_MS = 45_000;
+
+/**
+ * Authorisation: see isAdminRequest (cron bearer or ?key=<LOG_ADMIN_KEY>).
+ *
+ * Applies the retention policy (LOG_RETENTION_DAYS, LOG_RETENTION_MODE) to
+ * every expired day. When `done` is false the time budget ran out; the next
+ * call carries on from the oldest remaining day.
+ */
+
+export async function GET(req: NextRequest) {
+  if (!isAdminRequest(req)) return new NextResponse("Forbidden", { status: 403 });
+
+  try {
+    const result = await applyRetention(getLogStore(), resolveRetentionPolicy(), {
+      deadline: Date.now() + DEFAULT_TIME_BUDGET_MS,
+    });
+    return NextResponse.json(result);
+  } catch (err) {
+    console.error("[retention] error", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+import { NextRequest, NextResponse } from "next/server";
+import { getLogStore } from "@/lib/logStore";
+import { isAdminRequest } from "@/lib/adminAuth";
+import { isMonth, rollupMonth } from "@/lib/rollup";
+
+/**
+ * Authorisation: see isAdminRequest (cron bearer or ?key=<LOG_ADMIN_KEY>).
+ *
+ * Query:
+ *  - month=YYYY-MM   month to roll up (default: the previous UTC month)
+ */
+
+function previousMonthUTC(date: Date) {
+  const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() - 1, 1));
+  return `${d.getUTCFullYear()}-${(d.getUTCMonth() + 1).toString().padStart(2, "0")}`;
+}
+
+export async function GET(req: NextRequest) {
+  if (!isAdminRequest(req)) return new NextResponse("Forbidden", { status: 403 });
+
+  const url = new URL(req.url);
+  const month = url.searchParams.get("month") || previousMonthUTC(new Date());
+  if (!isMonth(month)) {
+    return NextResponse.json({ ok: false, error: "month must be YYYY-MM" }, { status: 400 });
+  }
+
+  const result = await rollupMonth(getLogStore(), month);
+  return NextResponse.json(result);
+}
@@ -0,0 +1,148 @@
+import { createHash } from "node:crypto";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+const dir = mkdtempSync(join(tmpdir(), "attachments-"));
+vi.stubEnv("NEXT_PUBLIC_LOG_ATTACHMENTS", "archive");
+vi.stubEnv("LOG_STORE", "fs");
+vi.stubEnv("LOG_STORE_DIR", dir);
+vi.stubEnv("SESSION_SECRET", "test-secret");
+
+const { POST } = await import("./route");
+const { POST: logEvent } = await import("@/app/api/log-event/route");
+const { issueSessionCookie } = await import("@/lib/session");
+
+const IMAGE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 1, 2, 3, 4]);
+const IMAGE_SHA = createHash("sha256").update(IMAGE).digest("hex");
+const THREAD = "thr_1";
+
+const cookieFor = (id?: string) => issueSessionCookie(id).cookie.split(";")[0];
+const alice = cookieFor();
+const bob = cookieFor();
+
+async function logTurn(cookie: string, id: string, consent = "granted") {
+  const response = await logEvent(
+    new Request("http://localhost/api/log-event", {
+      method: "POST",
+      headers: { "content-type": "application/json", cookie },
+      body: JSON.stringify({
+        type: "turn",
+        id,
+        user_text: "ছবি দেখুন",
+        assistant_text: "দেখছি",
+        thread_id: THREAD,
+        consent,
+        attachments: [{ type: "image/png", size: IMAGE.byteLength, sha256: IMAGE_SHA }],
+      }),
+    })
+  );
+  expect(response.status).toBe(200);
+}
+
+function upload(
+  query: Record<string, string>,
+  init: { cookie?: string; body?: BodyInit; headers?: Record<string, string> } = {}
+) {
+  return POST(
+    new Request(`http://localhost/api/attachments?${new URLSearchParams(query)}`, {
+      method: "POST",
+      headers: {
+        "content-type": "image/png",
+        ...(init.cookie ? { cookie: init.cookie } : {}),
+        ...init.headers,
+      },
+      body: init.body ?? IMAGE,
+      duplex: "half",
+    } as RequestInit)
+  );
+}
+
+/** A body that fails the test if it is read at all. */
+function unreadableBody(): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    pull() {
+      throw new Error("body was read");
+    },
+  });
+}
+
+describe("POST /api/attachments", () => {
+  beforeAll(async () => {
+    await logTurn(alice, "turn-granted");
+  });
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  it("archives an image of a turn the session logged with consent", async () => {
+    const response = await upload(
+      { thread_id: THREAD, turn_id: "turn-granted" },
+      { cookie: alice }
+    );
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body).toMatchObject({ ok: true, sha256: IMAGE_SHA, duplicate: false });
+    expect(body.key).toMatch(new RegExp(`^attachments/\\d{4}-\\d{2}-\\d{2}/${THREAD}/`));
+  });
+
+  it("requires a verified session", async () => {
+    const forged = "chatkit_session_id=00000000-0000-4000-8000-000000000000.1.abc";
+    for (const cookie of [undefined, forged]) {
+      const response = await upload({ thread_id: THREAD, turn_id: "turn-granted" }, { cookie });
+      expect(response.status).toBe(401);
+    }
+  });
+
+  it("refuses turns that were not logged with consent by this session", async () => {
+    await logTurn(bob, "turn-bob");
+    for (const [cookie, query] of [
+      [alice, { thread_id: THREAD, turn_id: "turn-missing" }],
+      [alice, { thread_id: THREAD, turn_id: "turn-bob" }],
+      [alice, { thread_id: "thr_other", turn_id: "turn-granted" }],
+      [bob, { thread_id: THREAD, turn_id: "turn-granted" }],
+    ] as const) {
+      const response = await upload(query, { cookie });
+      expect(response.status).toBe(403);
+      expect((await response.json()).error).toBe("consent_required");
+    }
+  });
+
+  it("refuses images the turn did not carry", async () => {
+    const response = await upload(
+      { thread_id: THREAD, turn_id: "turn-granted" },
+      { cookie: alice, body: new Uint8Array([9, 9, 9]) }
+    );
+    expect(response.status).toBe(403);
+    expect((await response.json()).error).toBe("not_on_turn");
+  });
+
+  it("rejects an oversized Content-Length without reading the body", async () => {
+    const response = await upload(
+      { thread_id: THREAD, turn_id: "turn-granted" },
+      {
+        cookie: alice,
+        body: unreadableBody(),
+        headers: { "content-length": String(5 * 1024 * 1024) },
+      }
+    );
+    expect(response.status).toBe(413);
+  });
+
+  it("stops reading a body without a length once it passes the limit", async () => {
+    let sent = 0;
+    const chunk = new Uint8Array(1024 * 1024);
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (sent >= 64) return controller.close();
+        sent += 1;
+        controller.enqueue(chunk);
+      },
+    });
+    const response = await upload(
+      { thread_id: THREAD, turn_id: "turn-granted" },
+      { cookie: alice, body }
+    );
+    expect(response.status).toBe(413);
+    expect(sent).toBeLessThan(8);
+  });
+});
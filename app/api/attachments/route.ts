@@ -0,0 +1,136 @@
+export const runtime = "nodejs";
+
+import { createHash } from "node:crypto";
+import { NextResponse } from "next/server";
+import { LogStoreConflictError, getLogStore } from "@/lib/logStore";
+import {
+  ARCHIVE_ATTACHMENTS,
+  MAX_ARCHIVED_BYTES,
+  attachmentKey,
+  isArchivable,
+  isArchivableType,
+  isThreadId,
+} from "@/lib/attachments";
+import { subjectDayKey } from "@/lib/erasure";
+import { findIngestedRecord } from "@/lib/ingest";
+import { readSessionId } from "@/lib/session";
+
+/**
+ * Archives one uploaded image when NEXT_PUBLIC_LOG_ATTACHMENTS=archive.
+ *
+ * POST /api/attachments?thread_id=<ChatKit thread>&turn_id=<logged turn id>
+ * Body: the raw image, with its MIME type as Content-Type.
+ *
+ * Consent is checked against what the server stored, not what the client
+ * says: the turn must have been logged by the caller's session (verified
+ * cookie) with consent granted, in this thread, and must list the image's
+ * SHA-256 among its attachments. So the client posts images only after their
+ * turn was logged.
+ *
+ * Bodies over MAX_ARCHIVED_BYTES are refused from their Content-Length before
+ * anything is read, and reading stops as soon as a body without one grows
+ * past the limit. The content is hashed here rather than trusting the
+ * client, and the same image sent twice on one day and thread is stored once.
+ */
+
+export async function POST(req: Request) {
+  if (!ARCHIVE_ATTACHMENTS) {
+    return NextResponse.json({ ok: false, error: "archiving_disabled" }, { status: 404 });
+  }
+
+  const sessionId = readSessionId(req);
+  if (!sessionId) {
+    return NextResponse.json({ ok: false, error: "no_session" }, { status: 401 });
+  }
+
+  const url = new URL(req.url);
+  const threadId = url.searchParams.get("thread_id") ?? "";
+  if (!isThreadId(threadId)) {
+    return NextResponse.json({ ok: false, error: "invalid_thread_id" }, { status: 400 });
+  }
+  const turnId = url.searchParams.get("turn_id") ?? "";
+  if (!turnId || turnId.length > 200) {
+    return NextResponse.json({ ok: false, error: "invalid_turn_id" }, { status: 400 });
+  }
+
+  const type = (req.headers.get("content-type") ?? "").split(";")[0].trim().toLowerCase();
+  const declared = Number(req.headers.get("content-length") ?? "0");
+  if (declared > MAX_ARCHIVED_BYTES) {
+    return NextResponse.json({ ok: false, error: "too_large" }, { status: 413 });
+  }
+  if (!isArchivableType(type)) {
+    return NextResponse.json({ ok: false, error: "unsupported_attachment" }, { status: 415 });
+  }
+
+  try {
+    const store = getLogStore();
+    const day = new Date().toISOString().slice(0, 10);
+
+    const turn = await findIngestedRecord(store, sessionId, turnId, day);
+    if (
+      turn?.type !== "turn" ||
+      turn.session_id !== sessionId ||
+      turn.thread_id !== threadId ||
+      turn.consent !== "granted"
+    ) {
+      return NextResponse.json({ ok: false, error: "consent_required" }, { status: 403 });
+    }
+
+    const bytes = await readBody(req, MAX_ARCHIVED_BYTES);
+    if (!bytes) {
+      return NextResponse.json({ ok: false, error: "too_large" }, { status: 413 });
+    }
+    if (!isArchivable(type, bytes.byteLength)) {
+      return NextResponse.json({ ok: false, error: "unsupported_attachment" }, { status: 415 });
+    }
+
+    const sha256 = createHash("sha256").update(bytes).digest("hex");
+    if (!turn.attachments.some((a) => a.sha256 === sha256)) {
+      return NextResponse.json({ ok: false, error: "not_on_turn" }, { status: 403 });
+    }
+    const key = attachmentKey(day, threadId, sha256, type);
+
+    let duplicate = false;
+    try {
+      await store.put(key, bytes, { contentType: type, ifAbsent: true });
+    } catch (error) {
+      if (!(error instanceof LogStoreConflictError)) throw error;
+      duplicate = true;
+    }
+
+    // Lets erasure find this day even if the turn was logged the day before.
+    await store.put(subjectDayKey(sessionId, day), "", { contentType: "text/plain" });
+
+    return NextResponse.json({ ok: true, key, sha256, duplicate });
+  } catch (err) {
+    console.error("[attachments] error", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
+
+/** The request body, or null as soon as it grows past `limit` bytes. */
+async function readBody(req: Request, limit: number): Promise<Uint8Array | null> {
+  const reader = req.body?.getReader();
+  if (!reader) {
+    return new Uint8Array(0);
+  }
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > limit) {
+      await reader.cancel().catch(() => undefined);
+      return null;
+    }
+    chunks.push(value);
+  }
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
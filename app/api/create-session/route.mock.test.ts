@@ -0,0 +1,198 @@
+import { spawn, type ChildProcess } from "node:child_process";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { assistantReplyFromSse, userTextFromRequest } from "@/lib/capture";
+import { createFilesystemStore } from "@/lib/logStore/filesystem";
+
+// Drives /api/create-session against scripts/mock-chatkit.mjs, one scenario
+// at a time. The route is imported afresh for each test so the circuit
+// breaker, which lives in module scope, starts closed. `slow` is shortened so
+// it answers within lib/upstream's per-attempt timeout. The last test runs a
+// mock reply through turn capture's parser and into /api/log-event, so the
+// mock cannot drift from what capture reads.
+
+let mock: ChildProcess;
+let mockUrl = "";
+
+function startMock(): Promise<string> {
+  mock = spawn(process.execPath, [join(process.cwd(), "scripts/mock-chatkit.mjs")], {
+    env: {
+      ...process.env,
+      MOCK_CHATKIT_PORT: "0",
+      MOCK_CHATKIT_SLOW_MS: "300",
+      MOCK_CHATKIT_TOKEN_MS: "0",
+    },
+    stdio: ["ignore", "pipe", "inherit"],
+  });
+  return new Promise((resolve, reject) => {
+    let output = "";
+    mock.stdout?.on("data", (chunk: Buffer) => {
+      output += chunk.toString();
+      const match = output.match(/listening on (http:\/\/localhost:\d+)/);
+      if (match) resolve(match[1]);
+    });
+    mock.on("exit", (code) => reject(new Error(`mock-chatkit exited with ${code}`)));
+  });
+}
+
+async function useScenarios(defaultScenario: string, queue: string[] = []) {
+  await fetch(`${mockUrl}/__mock/requests`, { method: "DELETE" });
+  const response = await fetch(`${mockUrl}/__mock/scenario`, {
+    method: "POST",
+    body: JSON.stringify({ default: defaultScenario, queue }),
+  });
+  expect(response.status).toBe(200);
+}
+
+async function mockRequests(): Promise<{ path: string; scenario: string }[]> {
+  const response = await fetch(`${mockUrl}/__mock/requests`);
+  return (await response.json()).requests;
+}
+
+async function createSession(): Promise<{ status: number; body: Record<string, unknown> }> {
+  const { POST } = await import("./route");
+  const response = await POST(
+    new Request("http://localhost/api/create-session", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ workflow: { name: "bangla-default" } }),
+    })
+  );
+  return { status: response.status, body: await response.json() };
+}
+
+beforeAll(async () => {
+  mockUrl = await startMock();
+});
+afterAll(() => {
+  mock?.kill();
+});
+
+describe("POST /api/create-session against the mock ChatKit server", () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.stubEnv("OPENAI_API_KEY", "sk-mock");
+    vi.stubEnv("SESSION_SECRET", "test-secret");
+    vi.stubEnv("CHATKIT_WORKFLOWS", "bangla-default=wf_mock");
+    vi.stubEnv("CHATKIT_API_BASE", mockUrl);
+    vi.stubEnv("CHATKIT_FACTS_VARIABLE", "");
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    vi.spyOn(console, "info").mockImplementation(() => undefined);
+  });
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it.each([
+    ["success", 200, undefined, 1],
+    ["slow", 200, undefined, 1],
+    ["unauthorized", 500, "misconfigured", 1],
+    ["malformed", 502, "upstream_unavailable", 1],
+    ["server_error", 503, "upstream_unavailable", 3],
+    ["rate_limited", 429, "rate_limited", 3],
+  ])(
+    "%s answers %i with code %s after %i call(s)",
+    async (scenario, status, code, calls) => {
+      await useScenarios(scenario);
+      const { status: actual, body } = await createSession();
+
+      expect(actual).toBe(status);
+      expect(body.code).toBe(code);
+      if (status === 200) expect(body.client_secret).toMatch(/^ek_mock_/);
+      expect(await mockRequests()).toHaveLength(calls);
+    },
+    10_000
+  );
+
+  it("retries a rate limited call and succeeds", async () => {
+    await useScenarios("success", ["rate_limited"]);
+    const { status, body } = await createSession();
+
+    expect(status).toBe(200);
+    expect(body.client_secret).toMatch(/^ek_mock_/);
+    expect((await mockRequests()).map((r) => r.scenario)).toEqual(["rate_limited", "success"]);
+  });
+
+  it("stops calling ChatKit once repeated calls have failed", async () => {
+    await useScenarios("server_error");
+    for (let i = 0; i < 5; i++) {
+      expect((await createSession()).status).toBe(503);
+    }
+    await useScenarios("success");
+    const { status, body } = await createSession();
+
+    expect(status).toBe(503);
+    expect(body.code).toBe("upstream_unavailable");
+    expect(await mockRequests()).toHaveLength(0);
+  }, 20_000);
+});
+
+describe("turn logging against the mock ChatKit server", () => {
+  const dir = mkdtempSync(join(tmpdir(), "mock-turns-"));
+
+  beforeEach(() => {
+    vi.resetModules();
+    vi.stubEnv("LOG_STORE", "fs");
+    vi.stubEnv("LOG_STORE_DIR", dir);
+    vi.stubEnv("SESSION_SECRET", "test-secret");
+  });
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  it("logs the turn capture reads from a streamed reply", async () => {
+    await useScenarios("success");
+    const request = readFileSync(
+      join(process.cwd(), "lib/capture/fixtures/chatkit-create.request.json"),
+      "utf8"
+    );
+    const response = await fetch(`${mockUrl}/v1/chatkit`, {
+      method: "POST",
+      headers: { authorization: "Bearer ek_mock", "content-type": "application/json" },
+      body: request,
+    });
+    const userText = userTextFromRequest(request);
+    const reply = assistantReplyFromSse(await response.text());
+
+    expect(userText).not.toBe("");
+    expect(reply.text).toBe(`You said: ${userText}`);
+    expect(reply.itemIds).toEqual([expect.stringMatching(/^msg_mock_/)]);
+
+    const { POST } = await import("@/app/api/log-event/route");
+    const { issueSessionCookie } = await import("@/lib/session");
+    const session = issueSessionCookie();
+    const cookie = session.cookie.split(";")[0];
+    const logged = await POST(
+      new Request("http://localhost/api/log-event", {
+        method: "POST",
+        headers: { "content-type": "application/json", cookie },
+        body: JSON.stringify({
+          type: "turn",
+          id: "turn-mock-1",
+          user_text: userText,
+          assistant_text: reply.text,
+          thread_id: "",
+          consent: "granted",
+          attachments: [],
+          item_ids: reply.itemIds,
+        }),
+      })
+    );
+    const body = await logged.json();
+
+    expect(logged.status).toBe(200);
+    expect(body).toMatchObject({ ok: true, duplicate: false });
+    const record = JSON.parse((await createFilesystemStore(dir).getText(body.key)) ?? "null");
+    expect(record).toMatchObject({
+      type: "turn",
+      user_text: userText,
+      assistant_text: reply.text,
+      item_ids: reply.itemIds,
+      session_id: session.id,
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "./route";
+
+const ENV = {
+  OPENAI_API_KEY: "sk-test",
+  SESSION_SECRET: "test-secret",
+  CHATKIT_WORKFLOWS: "bangla-default=wf_test",
+  CHATKIT_API_BASE: "http://chatkit.test",
+  CHATKIT_FACTS_VARIABLE: "",
+};
+
+function createSession(): Promise<Response> {
+  return POST(
+    new Request("http://localhost/api/create-session", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ workflow: { name: "bangla-default" } }),
+    })
+  );
+}
+
+/** Answers every ChatKit call with `body` and `status`. */
+function upstreamReplies(body: string, status = 200) {
+  const fetchMock = vi.fn(
+    async () => new Response(body, { status, headers: { "content-type": "application/json" } })
+  );
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+describe("POST /api/create-session", () => {
+  beforeEach(() => {
+    for (const [name, value] of Object.entries(ENV)) vi.stubEnv(name, value);
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    vi.spyOn(console, "info").mockImplementation(() => undefined);
+  });
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("returns the client secret and sets the session cookie", async () => {
+    const fetchMock = upstreamReplies(
+      JSON.stringify({ client_secret: "ek_123", expires_at: 1760700000 })
+    );
+    const response = await createSession();
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      client_secret: "ek_123",
+      expires_after: null,
+      expires_at: 1760700000,
+    });
+    expect(response.headers.get("set-cookie")).toMatch(/^chatkit_session_id=/);
+    expect(fetchMock).toHaveBeenCalledWith(
+      "http://chatkit.test/v1/chatkit/sessions",
+      expect.objectContaining({ method: "POST" })
+    );
+  });
+
+  it.each([
+    ["a truncated body", '{"client_secret": "ek_'],
+    ["a body without client_secret", JSON.stringify({ expires_at: 1760700000 })],
+    ["an empty client_secret", JSON.stringify({ client_secret: "" })],
+    ["a JSON array", "[]"],
+  ])("reports %s as ChatKit being unavailable", async (_, body) => {
+    upstreamReplies(body);
+    const response = await createSession();
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toMatchObject({ code: "upstream_unavailable" });
+  });
+
+  it.each([
+    ["OPENAI_API_KEY", "", /OPENAI_API_KEY/],
+    ["SESSION_SECRET", "", /SESSION_SECRET/],
+    ["SESSION_SECRET", " , ", /SESSION_SECRET/],
+    ["CHATKIT_WORKFLOWS", "bangla-default=not-a-workflow", /Invalid CHATKIT_WORKFLOWS entry/],
+    ["CHATKIT_DEFAULT_WORKFLOW", "missing", /CHATKIT_DEFAULT_WORKFLOW/],
+  ])("answers %s=%j as misconfigured without calling ChatKit", async (name, value, error) => {
+    const fetchMock = upstreamReplies(JSON.stringify({ client_secret: "ek_123" }));
+    vi.stubEnv(name, value);
+    const response = await createSession();
+
+    expect(response.status).toBe(500);
+    const body = await response.json();
+    expect(body.code).toBe("misconfigured");
+    expect(body.error).toMatch(error);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -1,9 +1,19 @@
-import { WORKFLOW_ID } from "@/lib/config";
-
-export const runtime = "edge";
+import { getLogStore } from "@/lib/logStore";
+import { formatFactsForWorkflow, listFacts } from "@/lib/facts";
+import { hasSessionSecret, issueSessionCookie, needsRenewal, readSession } from "@/lib/session";
+import { UpstreamError, chatkitSessionsUrl, fetchUpstream } from "@/lib/upstream";
+import {
+  chooseWorkflow,
+  resolveWorkflowAllowlist,
+  type WorkflowAllowlist,
+} from "@/lib/workflows";
+
+// Node rather than edge: saved facts are read from the log store.
+export const runtime = "nodejs";
 
 interface CreateSessionRequestBody {
-  workflow?: { id?: string | null } | null;
+  /** Pick the workflow by `name` (see lib/workflows); `id` is legacy. */
+  workflow?: { name?: string | null; id?: string | null } | null;
   scope?: { user_id?: string | null } | null;
   workflowId?: string | null;
   chatkit_configuration?: {
@@ -13,10 +23,6 @@ interface CreateSessionRequestBody {
   };
 }
 
-const DEFAULT_CHATKIT_BASE = "https://api.openai.com";
-const SESSION_COOKIE_NAME = "chatkit_session_id";
-const SESSION_COOKIE_MAX_AGE = 60 * 60 * 24 * 30; // 30 days
-
 export async function POST(request: Request): Promise<Response> {
   if (request.method !== "POST") {
     return methodNotAllowedResponse();
@@ -25,43 +31,52 @@ export async function POST(request: Request): Promise<Response> {
   try {
     const openaiApiKey = process.env.OPENAI_API_KEY;
     if (!openaiApiKey) {
-      return new Response(
-        JSON.stringify({
-          error: "Missing OPENAI_API_KEY environment variable",
-        }),
-        {
-          status: 500,
-          headers: { "Content-Type": "application/json" },
-        }
-      );
+      return misconfiguredResponse("Missing OPENAI_API_KEY environment variable");
+    }
+    if (!hasSessionSecret()) {
+      return misconfiguredResponse("Missing SESSION_SECRET environment variable");
+    }
+    let allowlist: WorkflowAllowlist;
+    try {
+      allowlist = resolveWorkflowAllowlist();
+    } catch (error) {
+      return misconfiguredResponse(error instanceof Error ? error.message : String(error));
     }
 
     const parsedBody = await safeParseJson<CreateSessionRequestBody>(request);
-    const { userId, sessionCookie: resolvedSessionCookie } =
-      await resolveUserId(request);
+    const {
+      userId,
+      sessionCookie: resolvedSessionCookie,
+      returning,
+    } = resolveUserId(request);
     sessionCookie = resolvedSessionCookie;
-    const resolvedWorkflowId =
-      parsedBody?.workflow?.id ?? parsedBody?.workflowId ?? WORKFLOW_ID;
+    const workflow = chooseWorkflow(allowlist, {
+      name: parsedBody?.workflow?.name,
+      id: parsedBody?.workflow?.id ?? parsedBody?.workflowId,
+    });
 
     if (process.env.NODE_ENV !== "production") {
       console.info("[create-session] handling request", {
-        resolvedWorkflowId,
+        workflow: workflow.ok ? workflow.name : workflow.error,
         body: JSON.stringify(parsedBody),
       });
     }
 
-    if (!resolvedWorkflowId) {
+    if (!workflow.ok) {
       return buildJsonResponse(
-        { error: "Missing workflow id" },
-        400,
+        {
+          error: workflow.error,
+          ...(workflow.status === 500 ? { code: "misconfigured" } : {}),
+        },
+        workflow.status,
         { "Content-Type": "application/json" },
         sessionCookie
       );
     }
 
-    const apiBase = process.env.CHATKIT_API_BASE ?? DEFAULT_CHATKIT_BASE;
-    const url = `${apiBase}/v1/chatkit/sessions`;
-    const upstreamResponse = await fetch(url, {
+    const stateVariables = returning ? await savedFactsState(userId) : null;
+
+    const upstreamResponse = await fetchUpstream(chatkitSessionsUrl(), {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -69,7 +84,10 @@ export async function POST(request: Request): Promise<Response> {
         "OpenAI-Beta": "chatkit_beta=v1",
       },
       body: JSON.stringify({
-        workflow: { id: resolvedWorkflowId },
+        workflow: {
+          id: workflow.id,
+          ...(stateVariables ? { state_variables: stateVariables } : {}),
+        },
         user: userId,
         chatkit_configuration: {
           file_upload: {
@@ -87,44 +105,39 @@ export async function POST(request: Request): Promise<Response> {
       });
     }
 
-    const upstreamJson = (await upstreamResponse.json().catch(() => ({}))) as
-      | Record<string, unknown>
-      | undefined;
-
-    if (!upstreamResponse.ok) {
-      const upstreamError = extractUpstreamError(upstreamJson);
+    return buildJsonResponse(
+      await readUpstreamSession(upstreamResponse),
+      200,
+      { "Content-Type": "application/json" },
+      sessionCookie
+    );
+  } catch (error) {
+    if (error instanceof UpstreamError) {
       console.error("OpenAI ChatKit session creation failed", {
-        status: upstreamResponse.status,
-        statusText: upstreamResponse.statusText,
-        body: upstreamJson,
+        code: error.code,
+        message: error.message,
+        body: error.details,
       });
+      const details =
+        typeof error.details === "object" && error.details !== null
+          ? (error.details as Record<string, unknown>)
+          : undefined;
       return buildJsonResponse(
         {
-          error:
-            upstreamError ??
-            `Failed to create session: ${upstreamResponse.statusText}`,
-          details: upstreamJson,
+          error: extractUpstreamError(details) ?? error.message,
+          code: error.code,
+          details: error.details,
+        },
+        error.status,
+        {
+          "Content-Type": "application/json",
+          ...(error.retryAfterSeconds !== null
+            ? { "Retry-After": String(error.retryAfterSeconds) }
+            : {}),
         },
-        upstreamResponse.status,
-        { "Content-Type": "application/json" },
         sessionCookie
       );
     }
-
-    const clientSecret = upstreamJson?.client_secret ?? null;
-    const expiresAfter = upstreamJson?.expires_after ?? null;
-    const responsePayload = {
-      client_secret: clientSecret,
-      expires_after: expiresAfter,
-    };
-
-    return buildJsonResponse(
-      responsePayload,
-      200,
-      { "Content-Type": "application/json" },
-      sessionCookie
-    );
-  } catch (error) {
     console.error("Create session error", error);
     return buildJsonResponse(
       { error: "Unexpected error" },
@@ -139,6 +152,49 @@ export async function GET(): Promise<Response> {
   return methodNotAllowedResponse();
 }
 
+function misconfiguredResponse(error: string): Response {
+  return new Response(JSON.stringify({ error, code: "misconfigured" }), {
+    status: 500,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * The client secret and its expiry from a successful ChatKit response. A body
+ * that is not JSON or has no client secret is reported as ChatKit being
+ * unavailable, so the browser gets an error it can retry instead of a
+ * session it cannot use.
+ */
+async function readUpstreamSession(response: Response): Promise<{
+  client_secret: string;
+  expires_after: unknown;
+  expires_at: unknown;
+}> {
+  const text = await response.text().catch(() => "");
+  let body: unknown = null;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    // handled below with the other unusable bodies
+  }
+  const json =
+    typeof body === "object" && body !== null ? (body as Record<string, unknown>) : {};
+  if (typeof json.client_secret !== "string" || !json.client_secret) {
+    throw new UpstreamError(
+      "upstream_unavailable",
+      "ChatKit returned no client secret",
+      502,
+      null,
+      body ?? text.slice(0, 200)
+    );
+  }
+  return {
+    client_secret: json.client_secret,
+    expires_after: json.expires_after ?? null,
+    expires_at: json.expires_at ?? null,
+  };
+}
+
 function methodNotAllowedResponse(): Response {
   return new Response(JSON.stringify({ error: "Method Not Allowed" }), {
     status: 405,
@@ -146,63 +202,44 @@ function methodNotAllowedResponse(): Response {
   });
 }
 
-async function resolveUserId(request: Request): Promise<{
+/**
+ * The caller's verified identity, or a new one when the cookie is missing,
+ * forged or expired. Older valid cookies are re-signed so active users keep
+ * their identity past the cookie's lifetime.
+ */
+function resolveUserId(request: Request): {
   userId: string;
   sessionCookie: string | null;
-}> {
-  const existing = getCookieValue(
-    request.headers.get("cookie"),
-    SESSION_COOKIE_NAME
-  );
-  if (existing) {
-    return { userId: existing, sessionCookie: null };
+  returning: boolean;
+} {
+  const existing = readSession(request);
+  if (existing && !needsRenewal(existing)) {
+    return { userId: existing.id, sessionCookie: null, returning: true };
   }
 
-  const generated =
-    typeof crypto.randomUUID === "function"
-      ? crypto.randomUUID()
-      : Math.random().toString(36).slice(2);
-
-  return {
-    userId: generated,
-    sessionCookie: serializeSessionCookie(generated),
-  };
+  const { id, cookie } = issueSessionCookie(existing?.id);
+  return { userId: id, sessionCookie: cookie, returning: existing !== null };
 }
 
-function getCookieValue(
-  cookieHeader: string | null,
-  name: string
-): string | null {
-  if (!cookieHeader) {
+/**
+ * Saved facts of a returning session as workflow state, or null when
+ * CHATKIT_FACTS_VARIABLE is unset or there are none. A store failure only
+ * costs the facts, never the session.
+ */
+async function savedFactsState(
+  userId: string
+): Promise<Record<string, string> | null> {
+  const variable = process.env.CHATKIT_FACTS_VARIABLE?.trim();
+  if (!variable) {
     return null;
   }
-
-  const cookies = cookieHeader.split(";");
-  for (const cookie of cookies) {
-    const [rawName, ...rest] = cookie.split("=");
-    if (!rawName || rest.length === 0) {
-      continue;
-    }
-    if (rawName.trim() === name) {
-      return rest.join("=").trim();
-    }
-  }
-  return null;
-}
-
-function serializeSessionCookie(value: string): string {
-  const attributes = [
-    `${SESSION_COOKIE_NAME}=${encodeURIComponent(value)}`,
-    "Path=/",
-    `Max-Age=${SESSION_COOKIE_MAX_AGE}`,
-    "HttpOnly",
-    "SameSite=Lax",
-  ];
-
-  if (process.env.NODE_ENV === "production") {
-    attributes.push("Secure");
+  try {
+    const facts = await listFacts(getLogStore(), userId);
+    return facts.length > 0 ? { [variable]: formatFactsForWorkflow(facts) } : null;
+  } catch (error) {
+    console.error("[create-session] failed to read saved facts", error);
+    return null;
   }
-  return attributes.join("; ");
 }
 
 function buildJsonResponse(
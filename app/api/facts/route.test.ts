@@ -0,0 +1,51 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, describe, expect, it, vi } from "vitest";
+
+const dir = mkdtempSync(join(tmpdir(), "facts-"));
+vi.stubEnv("LOG_STORE", "fs");
+vi.stubEnv("LOG_STORE_DIR", dir);
+vi.stubEnv("SESSION_SECRET", "test-secret");
+
+const { GET, POST } = await import("./route");
+const { issueSessionCookie } = await import("@/lib/session");
+
+const cookie = issueSessionCookie().cookie.split(";")[0];
+
+function saveFact(body: Record<string, unknown>) {
+  return POST(
+    new Request("http://localhost/api/facts", {
+      method: "POST",
+      headers: { "content-type": "application/json", cookie },
+      body: JSON.stringify(body),
+    })
+  );
+}
+
+async function savedFacts(): Promise<{ id: string; text: string }[]> {
+  const response = await GET(new Request("http://localhost/api/facts", { headers: { cookie } }));
+  return (await response.json()).facts;
+}
+
+describe("POST /api/facts", () => {
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  it.each([
+    ["declined", { consent: "declined" }],
+    ["missing", {}],
+  ])("refuses facts when consent is %s", async (_, consent) => {
+    const response = await saveFact({ id: "f1", text: "আমি ঢাকায় থাকি", ...consent });
+
+    expect(response.status).toBe(403);
+    expect((await response.json()).error).toBe("consent_required");
+    expect(await savedFacts()).toEqual([]);
+  });
+
+  it("saves facts with consent", async () => {
+    const response = await saveFact({ id: "f1", text: "আমি ঢাকায় থাকি", consent: "granted" });
+
+    expect(response.status).toBe(200);
+    expect(await savedFacts()).toMatchObject([{ id: "f1", text: "আমি ঢাকায় থাকি" }]);
+  });
+});
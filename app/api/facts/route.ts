@@ -0,0 +1,109 @@
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { getLogStore } from "@/lib/logStore";
+import {
+  MAX_FACT_LENGTH,
+  deleteFact,
+  isFactId,
+  listFacts,
+  saveFact,
+} from "@/lib/facts";
+import { readSessionId } from "@/lib/session";
+
+/**
+ * Saved facts of the calling session (chatkit_session_id cookie).
+ *
+ *  - GET                      { ok, facts: SavedFact[] }
+ *  - POST { id?, text, consent }
+ *                             saves a fact; `id` defaults to a new uuid
+ *  - DELETE ?id=<fact id>     removes one fact
+ *
+ * Requests without a session cookie get 401; the cookie is issued by
+ * /api/create-session when the chat starts. Facts are taken from the
+ * conversation, so like turns they are only stored with logging consent:
+ * a POST without `consent: "granted"` gets 403.
+ */
+
+export async function GET(req: Request) {
+  const sessionId = readSessionId(req);
+  if (!sessionId) return noSession();
+
+  try {
+    const facts = await listFacts(getLogStore(), sessionId);
+    return NextResponse.json({ ok: true, facts });
+  } catch (err) {
+    console.error("[facts] list error", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  const sessionId = readSessionId(req);
+  if (!sessionId) return noSession();
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "bad_request" }, { status: 400 });
+  }
+
+  const input = (typeof body === "object" && body !== null ? body : {}) as {
+    id?: unknown;
+    text?: unknown;
+    consent?: unknown;
+  };
+  if (input.consent !== "granted") {
+    return NextResponse.json({ ok: false, error: "consent_required" }, { status: 403 });
+  }
+  const id = input.id === undefined || input.id === "" ? crypto.randomUUID() : input.id;
+  const text = typeof input.text === "string" ? input.text.replace(/\s+/g, " ").trim() : "";
+  const issues: string[] = [];
+  if (typeof id !== "string" || !isFactId(id)) {
+    issues.push("id must be 1-64 letters, digits, '-' or '_'");
+  }
+  if (!text) issues.push("text is required");
+  if (text.length > MAX_FACT_LENGTH) {
+    issues.push(`text must be at most ${MAX_FACT_LENGTH} characters`);
+  }
+  if (issues.length > 0) {
+    return NextResponse.json({ ok: false, error: "invalid_fact", issues }, { status: 422 });
+  }
+
+  try {
+    const { fact, duplicate } = await saveFact(getLogStore(), sessionId, {
+      id: id as string,
+      text,
+    });
+    return NextResponse.json({ ok: true, fact, duplicate });
+  } catch (err) {
+    if (err instanceof RangeError) {
+      return NextResponse.json({ ok: false, error: err.message }, { status: 409 });
+    }
+    console.error("[facts] save error", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request) {
+  const sessionId = readSessionId(req);
+  if (!sessionId) return noSession();
+
+  const id = new URL(req.url).searchParams.get("id") ?? "";
+  if (!isFactId(id)) {
+    return NextResponse.json({ ok: false, error: "invalid_id" }, { status: 400 });
+  }
+
+  try {
+    const deleted = await deleteFact(getLogStore(), sessionId, id);
+    return NextResponse.json({ ok: deleted }, { status: deleted ? 200 : 404 });
+  } catch (err) {
+    console.error("[facts] delete error", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
+
+function noSession() {
+  return NextResponse.json({ ok: false, error: "no_session" }, { status: 401 });
+}
@@ -0,0 +1,56 @@
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { getLogStore } from "@/lib/logStore";
+import { buildLogRecord, validateFeedbackInput } from "@/lib/logSchema";
+import { ingestRecord } from "@/lib/ingest";
+import { redactFields } from "@/lib/redaction";
+import { readSessionId } from "@/lib/session";
+
+export async function POST(req: Request) {
+  try {
+    const ua = req.headers.get("user-agent") || "";
+    const ts = new Date().toISOString();
+
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ ok: false, error: "bad_request" }, { status: 400 });
+    }
+
+    const validation = validateFeedbackInput(body);
+    if (!validation.ok) {
+      return NextResponse.json(
+        { ok: false, error: "invalid_record", issues: validation.issues },
+        { status: 422 }
+      );
+    }
+
+    // Same opt-out as conversation logging
+    if (validation.value.consent === "declined") {
+      return NextResponse.json({ ok: false, error: "consent_declined" }, { status: 403 });
+    }
+
+    const { value: input, redactions } = redactFields(validation.value, ["comment", "meta"]);
+
+    const record = buildLogRecord(input, {
+      event_id: crypto.randomUUID(),
+      ts,
+      ua,
+      redactions,
+      session_id: readSessionId(req) ?? "",
+    });
+
+    // A rating and each later comment on it are stored separately; retries
+    // of the same submission are stored once
+    const idempotencyKey = `feedback:${input.id}:${input.rating}:${input.comment}`;
+
+    const { key, duplicate } = await ingestRecord(getLogStore(), record, idempotencyKey);
+
+    return NextResponse.json({ ok: true, key, duplicate });
+  } catch (err) {
+    console.error("[feedback] error", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
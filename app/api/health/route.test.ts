@@ -0,0 +1,66 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+
+const dir = mkdtempSync(join(tmpdir(), "health-route-"));
+const ENV = {
+  LOG_ADMIN_KEY: "admin-key",
+  OPENAI_API_KEY: "sk-test",
+  SESSION_SECRET: "test-secret",
+  CHATKIT_WORKFLOWS: "bangla-default=wf_test",
+  CHATKIT_API_BASE: "http://chatkit.test",
+  LOG_STORE: "fs",
+  LOG_STORE_DIR: dir,
+};
+
+const { GET } = await import("./route");
+
+function health(query: string) {
+  return GET(new NextRequest(`http://localhost/api/health?${query}`));
+}
+
+describe("GET /api/health", () => {
+  beforeEach(() => {
+    for (const [name, value] of Object.entries(ENV)) vi.stubEnv(name, value);
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => {
+        throw new TypeError("fetch failed");
+      })
+    );
+  });
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  it("requires the admin key", async () => {
+    const response = await health("key=wrong");
+    expect(response.status).toBe(403);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("answers 503 when a check fails", async () => {
+    const response = await health("key=admin-key");
+
+    expect(response.status).toBe(503);
+    expect(response.headers.get("cache-control")).toBe("no-store");
+    const report = await response.json();
+    expect(report.status).toBe("down");
+    expect(report.checks.upstream.status).toBe("fail");
+  });
+
+  it("answers 200 while degraded, skipping ChatKit with upstream=0", async () => {
+    const response = await health("key=admin-key&upstream=0");
+
+    expect(response.status).toBe(200);
+    const report = await response.json();
+    expect(report.status).toBe("degraded");
+    expect(report.checks.upstream.status).toBe("skipped");
+    expect(report.checks.compaction.status).toBe("warn");
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,32 @@
+// Node runtime so the filesystem log store can be used outside Vercel.
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { getLogStore } from "@/lib/logStore";
+import { isAdminRequest } from "@/lib/adminAuth";
+import { runHealthChecks } from "@/lib/health";
+
+/**
+ * Authorisation: see isAdminRequest (cron bearer or ?key=<LOG_ADMIN_KEY>).
+ *
+ * Checks configuration, the log store, ChatKit and compaction (see
+ * lib/health). Answers 200 when the status is `ok` or `degraded` and 503
+ * when it is `down`, so uptime monitors can alert on the status code alone.
+ *
+ * Query:
+ *  - upstream=0   skip the ChatKit check, for monitors polling often: each
+ *                 check creates a ChatKit session that is thrown away
+ */
+
+export async function GET(req: NextRequest) {
+  if (!isAdminRequest(req)) return new NextResponse("Forbidden", { status: 403 });
+
+  const url = new URL(req.url);
+  const report = await runHealthChecks(getLogStore, {
+    upstream: url.searchParams.get("upstream") !== "0",
+  });
+  return NextResponse.json(report, {
+    status: report.status === "down" ? 503 : 200,
+    headers: { "Cache-Control": "no-store" },
+  });
+}
@@ -1,61 +1,63 @@
-export const runtime = "edge";
+export const runtime = "nodejs";
 
 import { NextResponse } from "next/server";
-import { put } from "@vercel/blob";
+import { getLogStore } from "@/lib/logStore";
+import { buildLogRecord, validateLogInput } from "@/lib/logSchema";
+import { ingestRecord } from "@/lib/ingest";
+import { redactFields } from "@/lib/redaction";
+import { readSessionId } from "@/lib/session";
 
 export async function POST(req: Request) {
   try {
     const ua = req.headers.get("user-agent") || "";
     const ts = new Date().toISOString();
-    const body = await req.json().catch(() => ({}));
-
-    // Normalise to one record
-    let record: Record<string, unknown>;
-
-    if (body?.type === "turn") {
-      record = {
-        ts,                           // server time
-        type: "turn",
-        id: String(body.id || ""),
-        user_text: String(body.user_text || ""),
-        user_ts: String(body.user_ts || ""),
-        assistant_text: String(body.assistant_text || ""),
-        assistant_ts: String(body.assistant_ts || ""),
-        meta: body.meta ?? {},
-        ua,
-      };
-    } else {
-      // Backwards compatibility: single-sided event
-      const text = String(body.text || "");
-      const role = String(body.role || "user");
-      record = {
-        ts,
-        role,
-        text,
-        len: text.length,
-        sessionId: String(body.sessionId || ""),
-        threadId: String(body.threadId || ""),
-        meta: body.meta ?? {},
-        ua,
-      };
+
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ ok: false, error: "bad_request" }, { status: 400 });
+    }
+
+    const validation = validateLogInput(body);
+    if (!validation.ok) {
+      return NextResponse.json(
+        { ok: false, error: "invalid_record", issues: validation.issues },
+        { status: 422 }
+      );
+    }
+
+    // The user opted out of logging; store nothing
+    const validated = validation.value;
+    if (validated.consent === "declined") {
+      return NextResponse.json({ ok: false, error: "consent_declined" }, { status: 403 });
     }
 
-    // One file per turn. Keyed by date and time.
-    const day = ts.slice(0, 10);
-    const time = ts.slice(11, 23).replace(/[:.]/g, "-");
-    const suffix = body?.type === "turn" ? ".turn.json" : ".json";
-    const key = `logs/${day}/${time}${suffix}`;
-
-    await put(key, JSON.stringify(record), {
-      access: "public",
-      addRandomSuffix: false,
-      contentType: "application/json",
-      token: process.env.BLOB_READ_WRITE_TOKEN,
+    // Mask PII before anything is persisted
+    const { value: input, redactions } =
+      validated.type === "turn"
+        ? redactFields(validated, ["user_text", "assistant_text", "meta"])
+        : redactFields(validated, ["text", "meta"]);
+
+    // Normalise to one versioned record
+    const record = buildLogRecord(input, {
+      event_id: crypto.randomUUID(),
+      ts,
+      ua,
+      redactions,
+      session_id: readSessionId(req) ?? "",
     });
 
-    return NextResponse.json({ ok: true, key });
+    // Retries of the same turn are stored once
+    const idempotencyKey =
+      req.headers.get("idempotency-key")?.trim() ||
+      (input.type === "turn" ? input.id : null);
+
+    const { key, duplicate } = await ingestRecord(getLogStore(), record, idempotencyKey);
+
+    return NextResponse.json({ ok: true, key, duplicate });
   } catch (err) {
     console.error("[log-event] error", err);
-    return NextResponse.json({ ok: false, error: "bad_request" }, { status: 400 });
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
   }
 }
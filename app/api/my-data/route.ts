@@ -0,0 +1,46 @@
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+import { NextResponse } from "next/server";
+import { getLogStore } from "@/lib/logStore";
+import { eraseSession } from "@/lib/erasure";
+import { deleteAllFacts } from "@/lib/facts";
+import { readSessionId } from "@/lib/session";
+
+/**
+ * Self-service erasure for the calling session (chatkit_session_id cookie).
+ * The cookie is HttpOnly and its id never shown, so this is how users remove
+ * their own data; /api/admin/erase does the same for an id an admin has.
+ *
+ *  - DELETE   erases every stored record (archived copies included),
+ *             attachment and saved fact of the session:
+ *             { ok, complete, records, attachments, facts }
+ *
+ * `complete` is false when some days were being compacted or monthly
+ * rollups rebuilt; repeating the request finishes them. Requests without a
+ * session cookie get 401.
+ */
+
+export async function DELETE(req: Request) {
+  const sessionId = readSessionId(req);
+  if (!sessionId) {
+    return NextResponse.json({ ok: false, error: "no_session" }, { status: 401 });
+  }
+
+  try {
+    const store = getLogStore();
+    const receipt = await eraseSession(store, sessionId);
+    const facts = await deleteAllFacts(store, sessionId);
+    return NextResponse.json({
+      ok: true,
+      complete: receipt.complete,
+      records: receipt.records,
+      attachments: receipt.attachments,
+      facts,
+      receipt_id: receipt.id,
+    });
+  } catch (err) {
+    console.error("[my-data] erase error", err);
+    return NextResponse.json({ ok: false, error: "server_error" }, { status: 500 });
+  }
+}
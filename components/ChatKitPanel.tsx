@@ -7,11 +7,23 @@ import {
   PLACEHOLDER_INPUT,
   GREETING,
   CREATE_SESSION_ENDPOINT,
-  WORKFLOW_ID,
+  WORKFLOW_NAME,
   getThemeConfig,
 } from "@/lib/config";
+import {
+  SessionRequestError,
+  createClientSecretSource,
+  expiresAtFrom,
+  type ClientSecret,
+  type ClientSecretSource,
+} from "@/lib/clientSecret";
 import { ErrorOverlay } from "./ErrorOverlay";
+import { ConsentPrompt } from "./ConsentPrompt";
+import { FeedbackComment } from "./FeedbackComment";
 import type { ColorScheme } from "@/hooks/useColorScheme";
+import { useAnswerFeedback } from "@/hooks/useAnswerFeedback";
+import { useLogConsent } from "@/hooks/useLogConsent";
+import { useTurnCapture } from "@/hooks/useTurnCapture";
 
 /* -------------------------------------------------------------------------- */
 /* Types                                                                      */
@@ -37,11 +49,6 @@ type ErrorState = {
   retryable: boolean;
 };
 
-type TextPart = { type: "text"; text: string };
-type Role = "user" | "assistant" | "system" | "tool";
-type Message = { role: Role; content: string | TextPart[] };
-type Payload = { input?: string | Message[]; messages?: Message[] };
-
 /* -------------------------------------------------------------------------- */
 
 const isBrowser = typeof window !== "undefined";
@@ -73,12 +80,13 @@ export function ChatKitPanel({
   );
   const [widgetInstanceKey, setWidgetInstanceKey] = useState(0);
 
-  // Buffer for a single user→assistant turn
-  const turnRef = useRef<{
-    id: string;
-    userText?: string;
-    userTs?: string;
-  } | null>(null);
+  // Nothing is captured until the user has agreed to logging
+  const { consent, setConsent, resetConsent } = useLogConsent();
+  const feedback = useAnswerFeedback();
+  const capture = useTurnCapture(consent === "granted", feedback.onRating);
+  // Facts come from the conversation, so they are only saved with consent too
+  const consentRef = useRef(consent);
+  consentRef.current = consent;
 
   const setErrorState = useCallback((updates: Partial<ErrorState>) => {
     setErrors((current) => ({ ...current, ...updates }));
@@ -149,20 +157,6 @@ export function ChatKitPanel({
     };
   }, [scriptStatus, setErrorState]);
 
-  const isWorkflowConfigured = Boolean(
-    WORKFLOW_ID && !WORKFLOW_ID.startsWith("wf_replace")
-  );
-
-  useEffect(() => {
-    if (!isWorkflowConfigured && isMountedRef.current) {
-      setErrorState({
-        session: "Set NEXT_PUBLIC_CHATKIT_WORKFLOW_ID in your .env.local file.",
-        retryable: false,
-      });
-      setIsInitializingSession(false);
-    }
-  }, [isWorkflowConfigured, setErrorState]);
-
   const handleResetChat = useCallback(() => {
     processedFacts.current.clear();
     if (isBrowser) {
@@ -175,26 +169,27 @@ export function ChatKitPanel({
     setWidgetInstanceKey((prev) => prev + 1);
   }, []);
 
+  // One per panel; survives widget resets so a still-valid secret is reused.
+  const secretSourceRef = useRef<ClientSecretSource | null>(null);
+
+  useEffect(
+    () => () => {
+      secretSourceRef.current?.dispose();
+      secretSourceRef.current = null;
+    },
+    []
+  );
+
   const getClientSecret = useCallback(
     async (currentSecret: string | null) => {
       if (isDev) {
         console.info("[ChatKitPanel] getClientSecret invoked", {
           currentSecretPresent: Boolean(currentSecret),
-          workflowId: WORKFLOW_ID,
+          workflow: WORKFLOW_NAME || "(server default)",
           endpoint: CREATE_SESSION_ENDPOINT,
         });
       }
 
-      if (!isWorkflowConfigured) {
-        const detail =
-          "Set NEXT_PUBLIC_CHATKIT_WORKFLOW_ID in your .env.local file.";
-        if (isMountedRef.current) {
-          setErrorState({ session: detail, retryable: false });
-          setIsInitializingSession(false);
-        }
-        throw new Error(detail);
-      }
-
       if (isMountedRef.current) {
         if (!currentSecret) {
           setIsInitializingSession(true);
@@ -202,66 +197,30 @@ export function ChatKitPanel({
         setErrorState({ session: null, integration: null, retryable: false });
       }
 
-      try {
-        const response = await fetch(CREATE_SESSION_ENDPOINT, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            workflow: { id: WORKFLOW_ID },
-            chatkit_configuration: {
-              file_upload: { enabled: true },
-            },
-          }),
-        });
-
-        const raw = await response.text();
-
-        if (isDev) {
-          console.info("[ChatKitPanel] createSession response", {
-            status: response.status,
-            ok: response.ok,
-            bodyPreview: raw.slice(0, 1600),
-          });
-        }
-
-        let data: Record<string, unknown> = {};
-        if (raw) {
-          try {
-            data = JSON.parse(raw) as Record<string, unknown>;
-          } catch (parseError) {
-            console.error("Failed to parse create-session response", parseError);
+      secretSourceRef.current ??= createClientSecretSource({
+        fetchSecret: requestClientSecret,
+        onRefreshError: (error) => {
+          console.error("Failed to refresh ChatKit session", error);
+          if (isMountedRef.current) {
+            setErrorState({ session: sessionErrorDetail(error), retryable: true });
           }
-        }
-
-        if (!response.ok) {
-          const detail = extractErrorDetail(data, response.statusText);
-          console.error("Create session request failed", {
-            status: response.status,
-            body: data,
-          });
-          throw new Error(detail);
-        }
-
-        const clientSecret = data?.client_secret as string | undefined;
-        if (!clientSecret) {
-          throw new Error("Missing client secret in response");
-        }
+        },
+      });
 
+      try {
+        const clientSecret = await secretSourceRef.current.get(currentSecret);
         if (isMountedRef.current) {
           setErrorState({ session: null, integration: null });
         }
-
         return clientSecret;
       } catch (error) {
         console.error("Failed to create ChatKit session", error);
-        const detail =
-          error instanceof Error
-            ? error.message
-            : "Unable to start ChatKit session.";
+        const detail = sessionErrorDetail(error);
         if (isMountedRef.current) {
-          setErrorState({ session: detail, retryable: false });
+          // A refresh failing is usually transient; a first session failing
+          // is usually configuration unless the server says otherwise.
+          const transient = error instanceof SessionRequestError && error.transient;
+          setErrorState({ session: detail, retryable: Boolean(currentSecret) || transient });
         }
         throw error instanceof Error ? error : new Error(detail);
       } finally {
@@ -270,7 +229,7 @@ export function ChatKitPanel({
         }
       }
     },
-    [isWorkflowConfigured, setErrorState]
+    [setErrorState]
   );
 
   const chatkit = useChatKit({
@@ -287,7 +246,7 @@ export function ChatKitPanel({
       placeholder: PLACEHOLDER_INPUT,
       attachments: { enabled: true },
     },
-    threadItemActions: { feedback: false },
+    threadItemActions: { feedback: true },
     onClientTool: async (invocation: {
       name: string;
       params: Record<string, unknown>;
@@ -305,6 +264,9 @@ export function ChatKitPanel({
       if (invocation.name === "record_fact") {
         const id = String(invocation.params.fact_id ?? "");
         const text = String(invocation.params.fact_text ?? "");
+        if (consentRef.current !== "granted") {
+          return { success: false };
+        }
         if (!id || processedFacts.current.has(id)) {
           return { success: true };
         }
@@ -320,512 +282,24 @@ export function ChatKitPanel({
       return { success: false };
     },
     onResponseEnd: () => {
+      capture.onResponseEnd();
       onResponseEnd();
     },
     onResponseStart: () => {
+      capture.onResponseStart();
       setErrorState({ integration: null, retryable: false });
     },
-    onThreadChange: () => {
+    onThreadChange: (event) => {
+      capture.onThreadChange(event);
       processedFacts.current.clear();
     },
     onError: ({ error }: { error: unknown }) => {
+      capture.onError();
       console.error("ChatKit error", error);
     },
+    onLog: capture.onLog,
   });
 
-  /* ------------------------------------------------------------------------ */
-  /* Helpers for interceptors and observer                                    */
-  /* ------------------------------------------------------------------------ */
-
-  const extractUserTextFromJSON = (raw: string): string => {
-    try {
-      const p = JSON.parse(raw) as Payload;
-      if (typeof p?.input === "string") return p.input;
-
-      if (Array.isArray(p?.input)) {
-        const u = p.input.find((m) => m && m.role === "user");
-        if (u) {
-          if (typeof u.content === "string") return u.content;
-          const t =
-            Array.isArray(u.content) &&
-            u.content.find((c) => c && (c as TextPart).type === "text");
-          if (t && typeof (t as TextPart).text === "string") return (t as TextPart).text;
-        }
-      }
-
-      if (Array.isArray(p?.messages)) {
-        const u = p.messages.find((m) => m && m.role === "user");
-        if (u) {
-          if (typeof u.content === "string") return u.content;
-          const t =
-            Array.isArray(u.content) &&
-            u.content.find((c) => c && (c as TextPart).type === "text");
-          if (t && typeof (t as TextPart).text === "string") return (t as TextPart).text;
-        }
-      }
-    } catch {
-      // ignore
-    }
-    return "";
-  };
-
-  const bodyToText = async (body: unknown): Promise<string> => {
-    try {
-      if (typeof body === "string") return body;
-      if (body instanceof Blob) return body.text();
-      if (body instanceof ArrayBuffer) return new TextDecoder().decode(body);
-      if (ArrayBuffer.isView(body)) return new TextDecoder().decode(body.buffer as ArrayBuffer);
-    } catch {
-      // ignore
-    }
-    return "";
-  };
-
-  const shouldSkipUrl = (url: string): boolean => {
-    return (
-      url.includes("/api/create-session") ||
-      url.includes("/api/log-event") ||
-      url.includes("/track?") ||
-      url.includes("/_next/")
-    );
-  };
-
-  const sendTurnIfReady = (assistantText: string, meta: Record<string, string>) => {
-    if (!assistantText || assistantText.trim().length === 0) return;
-    const current = turnRef.current;
-    const assistantTs = new Date().toISOString();
-
-    const payload =
-      current
-        ? {
-            type: "turn",
-            id: current.id,
-            user_text: current.userText ?? "",
-            user_ts: current.userTs ?? "",
-            assistant_text: assistantText,
-            assistant_ts: assistantTs,
-            meta: { ...meta, path: location.pathname },
-          }
-        : {
-            type: "turn",
-            id: String(Date.now()),
-            user_text: "",
-            user_ts: "",
-            assistant_text: assistantText,
-            assistant_ts: assistantTs,
-            meta: { ...meta, path: location.pathname },
-          };
-
-    void fetch("/api/log-event", {
-      method: "POST",
-      headers: { "content-type": "application/json" },
-      body: JSON.stringify(payload),
-    });
-
-    // Clear buffer for next turn
-    turnRef.current = null;
-  };
-
-  /* ------------------------------------------------------------------------ */
-  /* Interceptor: fetch (reads user BEFORE send; logs assistant AFTER)        */
-  /* ------------------------------------------------------------------------ */
-
-  useEffect(() => {
-    if (!isBrowser) return;
-
-    const originalFetch = window.fetch;
-
-    window.fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
-      const toUrl = (v: RequestInfo | URL): string =>
-        typeof v === "string"
-          ? v
-          : v instanceof URL
-          ? v.toString()
-          : v instanceof Request
-          ? v.url
-          : String(v);
-
-      const url = toUrl(input);
-      const method =
-        (init?.method ?? (input instanceof Request ? input.method : "GET")).toUpperCase();
-
-      // Read request body before sending
-      let requestBody = "";
-      if (!shouldSkipUrl(url) && method === "POST") {
-        try {
-          if (input instanceof Request) {
-            const clone = input.clone();
-            requestBody = await clone.text();
-          } else if (init?.body !== undefined) {
-            requestBody = await bodyToText(init.body);
-          }
-        } catch {
-          // ignore
-        }
-
-        const userText = requestBody ? extractUserTextFromJSON(requestBody) : "";
-        if (userText.trim().length > 0) {
-          turnRef.current = {
-            id: String(Date.now()),
-            userText,
-            userTs: new Date().toISOString(),
-          };
-        }
-      }
-
-      // Send the real request
-      const resp = await originalFetch(input as RequestInfo, init as RequestInit);
-
-      // Parse assistant afterwards
-      try {
-        if (!shouldSkipUrl(url) && method === "POST") {
-          const ct = resp.headers.get("content-type") ?? "";
-          const looksStream = ct.includes("text/event-stream");
-
-          if (looksStream) {
-            const cloned = resp.clone();
-            const reader = cloned.body?.getReader();
-            if (reader) {
-              const decoder = new TextDecoder();
-              let buffer = "";
-              let full = "";
-
-              const pullFromLine = (line: string): string => {
-                const i = line.indexOf("{");
-                if (i < 0) return "";
-                try {
-                  const obj = JSON.parse(line.slice(i)) as Record<string, unknown>;
-                  const ot = obj["output_text"];
-                  if (typeof ot === "string") return ot;
-                  if (Array.isArray(ot) && ot.every((v) => typeof v === "string")) {
-                    return (ot as string[]).join("");
-                  }
-                  const delta = (obj as { delta?: unknown }).delta;
-                  if (
-                    delta &&
-                    typeof delta === "object" &&
-                    typeof (delta as { text?: unknown }).text === "string"
-                  ) {
-                    return String((delta as { text: string }).text);
-                  }
-                  if (typeof (obj as { text?: unknown }).text === "string") {
-                    return String((obj as { text: string }).text);
-                  }
-                } catch {
-                  // ignore
-                }
-                return "";
-              };
-
-              for (;;) {
-                const r = await reader.read();
-                if (r.done) break;
-                buffer += decoder.decode(r.value, { stream: true });
-                const lines = buffer.split(/\r?\n/);
-                buffer = lines.pop() ?? "";
-                for (const line of lines) {
-                  const t = line.trim();
-                  if (!t.startsWith("data:")) continue;
-                  const piece = pullFromLine(t);
-                  if (piece) full += piece;
-                }
-              }
-              if (buffer.startsWith("data:")) {
-                const tail = pullFromLine(buffer);
-                if (tail) full += tail;
-              }
-
-              sendTurnIfReady(full, {
-                endpoint: url.replace(/^https?:\/\//, ""),
-                method: "STREAM:SSE",
-              });
-            }
-          } else {
-            const clone = resp.clone();
-            const raw = await clone.text();
-            let assistant = "";
-            try {
-              const obj = JSON.parse(raw) as Record<string, unknown>;
-              const ot = obj["output_text"];
-              if (typeof ot === "string") assistant = ot;
-              else if (Array.isArray(ot) && ot.every((v) => typeof v === "string")) {
-                assistant = (ot as string[]).join("");
-              }
-            } catch {
-              if (typeof raw === "string") assistant = raw;
-            }
-
-            sendTurnIfReady(assistant, {
-              endpoint: url.replace(/^https?:\/\//, ""),
-              method: "POST:nonstream",
-            });
-          }
-        }
-      } catch {
-        // ignore
-      }
-
-      return resp;
-    };
-
-    return () => {
-      window.fetch = originalFetch;
-    };
-  }, []); // once
-
-  /* ------------------------------------------------------------------------ */
-  /* DOM Observer: event-driven + robust scanning (typed)                     */
-  /* ------------------------------------------------------------------------ */
-
-  useEffect(() => {
-    if (!isBrowser) return;
-
-    type WithShadow = HTMLElement & { shadowRoot?: ShadowRoot };
-
-    // Register and remember cleanups
-    const cleanupFns: Array<() => void> = [];
-    const addCleanup = (fn: () => void) => cleanupFns.push(fn);
-
-      function attach(hostEl: HTMLElement) {
-        type WithShadow = HTMLElement & { shadowRoot?: ShadowRoot };
-        const root: ShadowRoot | null = (hostEl as WithShadow).shadowRoot ?? null;
-        if (!root) {
-          console.warn("[observer] shadowRoot not found on <openai-chatkit>");
-          return;
-        }
-
-        console.log("[observer] attached to shadowRoot");
-
-        // De-dupe keys we have already sent
-        const seen = new Set<string>();
-
-        // ----- helpers MUST come after 'root' is declared -----
-        const qs = <T extends Element>(sel: string, scope?: ParentNode): T | null =>
-          (((scope ?? root).querySelector(sel)) as T | null);
-
-        const getText = (
-          el: HTMLElement | HTMLTextAreaElement | HTMLInputElement | null
-        ): string => {
-          if (!el) return "";
-          if (el instanceof HTMLTextAreaElement) return el.value ?? "";
-          if (el instanceof HTMLInputElement) return el.value ?? "";
-          return el.innerText ?? "";
-        };
-
-        const extractVisible = (node: Element): string => {
-          const txt = (node as HTMLElement).innerText || node.textContent || "";
-          return txt.trim();
-        };
-
-        function inferRole(el: Element | null): "user" | "assistant" | "" {
-          for (let n: Element | null = el; n; n = n.parentElement) {
-            const dr = n.getAttribute?.("data-role") || n.getAttribute?.("data-message-role") || "";
-            if (dr === "user" || dr === "assistant") return dr as "user" | "assistant";
-
-            const cls = (n as HTMLElement).className || "";
-            if (/\bassistant\b/i.test(cls)) return "assistant";
-            if (/\buser\b/i.test(cls)) return "user";
-
-            const aria = n.getAttribute?.("aria-label") || n.getAttribute?.("role") || "";
-            if (/assistant/i.test(aria)) return "assistant";
-            if (/user|you/i.test(aria)) return "user";
-          }
-          return "";
-        }
-
-        // Locate transcript region
-        const transcript: ParentNode =
-          (qs<HTMLElement>('[role="log"]') as ParentNode) ??
-          (qs<HTMLElement>('[aria-live]') as ParentNode) ??
-          root;
-
-        // composer refs
-        let composerInput: HTMLTextAreaElement | HTMLInputElement | HTMLElement | null = null;
-        let composerSend: HTMLElement | null = null;
-
-        function hookComposer() {
-          const prevInput = composerInput;
-          const prevSend = composerSend;
-
-          composerInput =
-            qs<HTMLTextAreaElement>("textarea") ||
-            qs<HTMLElement>('[contenteditable="true"]') ||
-            qs<HTMLInputElement>('input[type="text"]');
-
-          if (!root) {
-            composerSend = null;
-            return;
-          }
-
-          composerSend =
-            Array.from(root.querySelectorAll<HTMLElement>("button, [role='button']"))
-              .find((b) => {
-                const label =
-                  b.getAttribute("aria-label") ||
-                  b.getAttribute("title") ||
-                  (b as HTMLButtonElement).innerText ||
-                  "";
-                return /send|submit/i.test(label);
-              }) || null;
-
-          if (prevInput === composerInput && prevSend === composerSend) return;
-
-          // Key handler: type as Event, cast inside
-          if (composerInput) {
-            const onKey = (ev: Event) => {
-              const e = ev as KeyboardEvent;
-              if (e.key === "Enter" && !e.shiftKey) {
-                const user = getText(composerInput).trim();
-                if (user) {
-                  console.log("[observer] user (enter):", user.slice(0, 120));
-                  turnRef.current = {
-                    id: String(Date.now()),
-                    userText: user,
-                    userTs: new Date().toISOString(),
-                  };
-                }
-              }
-            };
-            composerInput.addEventListener("keydown", onKey);
-            cleanupFns.push(() => composerInput?.removeEventListener("keydown", onKey));
-          }
-
-          if (composerSend) {
-            const onClick = () => {
-              const user = getText(composerInput).trim();
-              if (user) {
-                console.log("[observer] user (click):", user.slice(0, 120));
-                turnRef.current = {
-                  id: String(Date.now()),
-                  userText: user,
-                  userTs: new Date().toISOString(),
-                };
-              }
-            };
-            composerSend.addEventListener("click", onClick);
-            cleanupFns.push(() => composerSend?.removeEventListener("click", onClick));
-          }
-        }
-
-      if (!root) {
-        return;
-      }
-
-      // ---- transcript scanning ---------------------------------------------
-      const transcriptEl =
-        root.querySelector<HTMLElement>('[role="log"]') ||
-        root.querySelector<HTMLElement>('[aria-live]') ||
-        ((root as unknown) as HTMLElement);
-
-      let lastAssistant = "";
-
-      function scan(container: ParentNode) {
-        const selector = [
-          "[data-role]", "[data-message-role]",
-          '[role="listitem"]', "article", "li",
-          '[class*="message"]', '[class*="bubble"]', '[class*="content"]',
-          "p"
-        ].join(",");
-
-        const nodes = Array.from((container as Element).querySelectorAll<HTMLElement>(selector));
-        for (const el of nodes) {
-          const text = extractVisible(el);
-          if (!text) continue;
-
-          const role = inferRole(el);
-          if (!role) continue;
-
-          const key = `${role}:${text.slice(0, 240)}`;
-          if (seen.has(key)) continue;
-          seen.add(key);
-
-          if (role === "user") {
-            console.log("[observer] user:", text.slice(0, 120));
-            turnRef.current = {
-              id: String(Date.now()),
-              userText: text,
-              userTs: new Date().toISOString(),
-            };
-          } else {
-            if (text === lastAssistant) continue;
-            lastAssistant = text;
-            console.log("[observer] assistant:", text.slice(0, 120));
-
-            const assistantTs = new Date().toISOString();
-            const payload = {
-              type: "turn",
-              id: turnRef.current?.id ?? String(Date.now()),
-              user_text: turnRef.current?.userText ?? "",
-              user_ts: turnRef.current?.userTs ?? "",
-              assistant_text: text,
-              assistant_ts: assistantTs,
-              meta: { path: location.pathname, source: "dom" },
-            };
-
-            void fetch("/api/log-event", {
-              method: "POST",
-              headers: { "content-type": "application/json" },
-              body: JSON.stringify(payload),
-            });
-
-            turnRef.current = null;
-          }
-        }
-      }
-
-      // Initial hooks and sweep
-      hookComposer();
-      scan(transcriptEl);
-
-      // Observe transcript and composer for changes
-      const mo = new MutationObserver((mutations) => {
-        for (const m of mutations) {
-          if (m.type === "childList") {
-            if (m.addedNodes && m.addedNodes.length > 0) {
-              m.addedNodes.forEach((n) => {
-                if (n instanceof HTMLElement || n instanceof DocumentFragment) {
-                  scan(n);
-                }
-              });
-            }
-            if (m.target instanceof HTMLElement) {
-              scan(m.target);
-            }
-          }
-          if (m.type === "attributes" && m.target instanceof HTMLElement) {
-            scan(m.target);
-          }
-        }
-      });
-      mo.observe(transcriptEl, { childList: true, subtree: true, attributes: true });
-      addCleanup(() => mo.disconnect());
-
-      // As the UI can re-render, periodically try to re-hook composer if missing
-      const pollId = window.setInterval(() => {
-        if (!composerInput || !composerSend) hookComposer();
-      }, 1500);
-      addCleanup(() => window.clearInterval(pollId));
-    }
-
-    // Find the custom element and attach; retry if needed
-    const host = document.querySelector("openai-chatkit") as HTMLElement | null;
-    if (host) {
-      attach(host);
-    } else {
-      console.log("[observer] host not ready, retrying…");
-      const id = window.setTimeout(() => {
-        const retry = document.querySelector("openai-chatkit") as HTMLElement | null;
-        if (retry) attach(retry);
-        else console.warn("[observer] openai-chatkit not found");
-      }, 700);
-      cleanupFns.push(() => window.clearTimeout(id));
-    }
-
-    return () => {
-      cleanupFns.forEach((fn) => fn());
-    };
-  }, []); // once
-
   /* ------------------------------------------------------------------------ */
 
   const activeError = errors.session ?? errors.integration;
@@ -837,7 +311,7 @@ export function ChatKitPanel({
       hasControl: Boolean(chatkit.control),
       scriptStatus,
       hasError: Boolean(blockingError),
-      workflowId: WORKFLOW_ID,
+      workflow: WORKFLOW_NAME || "(server default)",
     });
   }
 
@@ -860,10 +334,95 @@ export function ChatKitPanel({
         onRetry={blockingError && errors.retryable ? handleResetChat : null}
         retryLabel="Restart chat"
       />
+      {consent === null ? <ConsentPrompt onChoose={setConsent} /> : null}
+      {feedback.pending ? (
+        <FeedbackComment
+          key={feedback.pending.id}
+          rating={feedback.pending.rating}
+          onSubmit={feedback.submitComment}
+          onDismiss={feedback.dismiss}
+        />
+      ) : null}
+      {consent ? (
+        <button
+          type="button"
+          className="absolute bottom-2 left-4 text-xs text-slate-500 underline-offset-2 hover:underline dark:text-slate-400"
+          onClick={resetConsent}
+        >
+          {consent === "granted"
+            ? "কথোপকথন সংরক্ষিত হচ্ছে · Saving chats: on"
+            : "কথোপকথন সংরক্ষিত হচ্ছে না · Saving chats: off"}
+        </button>
+      ) : null}
     </div>
   );
 }
 
+/* -------------------------------------------------------------------------- */
+/* Session request                                                            */
+/* -------------------------------------------------------------------------- */
+
+async function requestClientSecret(): Promise<ClientSecret> {
+  const response = await fetch(CREATE_SESSION_ENDPOINT, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      // The server maps the name to an allowed workflow id
+      workflow: WORKFLOW_NAME ? { name: WORKFLOW_NAME } : {},
+      chatkit_configuration: {
+        file_upload: { enabled: true },
+      },
+    }),
+  });
+
+  const raw = await response.text();
+
+  if (isDev) {
+    console.info("[ChatKitPanel] createSession response", {
+      status: response.status,
+      ok: response.ok,
+      bodyPreview: raw.slice(0, 1600),
+    });
+  }
+
+  let data: Record<string, unknown> = {};
+  if (raw) {
+    try {
+      data = JSON.parse(raw) as Record<string, unknown>;
+    } catch (parseError) {
+      console.error("Failed to parse create-session response", parseError);
+    }
+  }
+
+  if (!response.ok) {
+    const detail = extractErrorDetail(data, response.statusText);
+    console.error("Create session request failed", {
+      status: response.status,
+      body: data,
+    });
+    throw new SessionRequestError(detail, typeof data.code === "string" ? data.code : null);
+  }
+
+  const clientSecret = data?.client_secret as string | undefined;
+  if (!clientSecret) {
+    throw new Error("Missing client secret in response");
+  }
+
+  return { secret: clientSecret, expiresAt: expiresAtFrom(data) };
+}
+
+function sessionErrorDetail(error: unknown): string {
+  if (error instanceof SessionRequestError && error.code === "rate_limited") {
+    return "এখন অনেক অনুরোধ আসছে, একটু পরে আবার চেষ্টা করুন। · Too many requests right now. Please try again in a moment.";
+  }
+  if (error instanceof SessionRequestError && error.code === "upstream_unavailable") {
+    return "সহকারী সাময়িকভাবে পাওয়া যাচ্ছে না, আবার চেষ্টা করুন। · The assistant is temporarily unavailable. Please try again.";
+  }
+  return error instanceof Error ? error.message : "Unable to start ChatKit session.";
+}
+
 /* -------------------------------------------------------------------------- */
 /* Error detail helper                                                        */
 /* -------------------------------------------------------------------------- */
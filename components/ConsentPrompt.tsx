@@ -0,0 +1,50 @@
+"use client";
+
+import type { LogConsent } from "@/hooks/useLogConsent";
+
+type ConsentPromptProps = {
+  onChoose: (consent: LogConsent) => void;
+};
+
+export function ConsentPrompt({ onChoose }: ConsentPromptProps) {
+  return (
+    <div className="absolute inset-0 z-20 flex h-full w-full flex-col justify-center rounded-[inherit] bg-white/85 p-6 backdrop-blur dark:bg-slate-900/90">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="log-consent-title"
+        className="mx-auto w-full max-w-md rounded-xl bg-white px-6 py-5 text-slate-700 shadow-sm dark:bg-slate-800 dark:text-slate-100"
+      >
+        <h2 id="log-consent-title" className="text-lg font-semibold">
+          কথোপকথন সংরক্ষণ · Saving conversations
+        </h2>
+        <p className="mt-3 text-sm">
+          সেবাটি উন্নত করতে আমরা আপনার প্রশ্ন ও বটের উত্তর সংরক্ষণ করতে চাই। ফোন
+          নম্বর, এনআইডি, ইমেইল ও অবস্থান সংরক্ষণের আগে মুছে ফেলা হয়। আপনি না
+          চাইলেও চ্যাট ব্যবহার করতে পারবেন।
+        </p>
+        <p className="mt-2 text-sm text-slate-500 dark:text-slate-300">
+          To improve this service we would like to store your questions and the
+          assistant&apos;s answers. Phone numbers, NID numbers, emails and
+          locations are removed before storage. You can chat either way.
+        </p>
+        <div className="mt-5 flex flex-wrap justify-end gap-2">
+          <button
+            type="button"
+            className="inline-flex items-center justify-center rounded-lg border border-slate-300 px-4 py-2 text-sm font-semibold transition hover:bg-slate-100 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 dark:border-slate-600 dark:hover:bg-slate-700"
+            onClick={() => onChoose("declined")}
+          >
+            সংরক্ষণ করবেন না · Don&apos;t save
+          </button>
+          <button
+            type="button"
+            className="inline-flex items-center justify-center rounded-lg bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 focus-visible:ring-offset-2 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-slate-200"
+            onClick={() => onChoose("granted")}
+          >
+            সম্মতি দিচ্ছি · I agree
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+"use client";
+
+import { useState } from "react";
+
+type EraseMyDataProps = {
+  /** Called once the server has erased this browser's data. */
+  onErased: () => void;
+};
+
+type EraseState = "idle" | "confirm" | "working" | "done" | "partial" | "failed";
+
+const ERASE_ENDPOINT = "/api/my-data";
+
+const MESSAGES: Partial<Record<EraseState, string>> = {
+  done: "আপনার তথ্য মুছে ফেলা হয়েছে · Your data has been deleted",
+  partial:
+    "কিছু তথ্য এখনো মোছা হচ্ছে, একটু পরে আবার চেষ্টা করুন · Some data is still being processed; try again shortly",
+  failed: "মুছে ফেলা যায়নি, আবার চেষ্টা করুন · Could not delete; please try again",
+};
+
+/**
+ * Lets the user delete everything stored for this browser's session (logged
+ * chats, attachments, saved facts) through /api/my-data, after confirming.
+ */
+export function EraseMyData({ onErased }: EraseMyDataProps) {
+  const [state, setState] = useState<EraseState>("idle");
+
+  const erase = async () => {
+    setState("working");
+    try {
+      const response = await fetch(ERASE_ENDPOINT, { method: "DELETE" });
+      if (response.status === 401) {
+        // No session cookie yet: nothing has been stored for this browser.
+        setState("done");
+        return;
+      }
+      const data = (await response.json().catch(() => ({}))) as { complete?: boolean };
+      if (!response.ok) {
+        setState("failed");
+        return;
+      }
+      setState(data.complete === false ? "partial" : "done");
+      onErased();
+    } catch (error) {
+      if (process.env.NODE_ENV !== "production") {
+        console.warn("[EraseMyData] Failed to erase data", error);
+      }
+      setState("failed");
+    }
+  };
+
+  const linkClass =
+    "text-xs text-slate-500 underline-offset-2 hover:underline disabled:opacity-50 dark:text-slate-400";
+
+  return (
+    <div className="mt-2 flex flex-wrap items-center justify-end gap-3 px-4 text-xs text-slate-500 dark:text-slate-400">
+      {MESSAGES[state] ? <span role="status">{MESSAGES[state]}</span> : null}
+      {state === "confirm" || state === "working" ? (
+        <>
+          <span>
+            সব সংরক্ষিত কথোপকথন ও তথ্য মুছবেন? · Delete all saved chats and facts?
+          </span>
+          <button
+            type="button"
+            className={linkClass}
+            disabled={state === "working"}
+            onClick={() => setState("idle")}
+          >
+            না · Cancel
+          </button>
+          <button
+            type="button"
+            className={`${linkClass} font-semibold text-red-600 dark:text-red-400`}
+            disabled={state === "working"}
+            onClick={() => void erase()}
+          >
+            হ্যাঁ, মুছুন · Yes, delete
+          </button>
+        </>
+      ) : (
+        <button type="button" className={linkClass} onClick={() => setState("confirm")}>
+          আমার তথ্য মুছুন · Delete my data
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+"use client";
+
+import { useState } from "react";
+
+type FeedbackCommentProps = {
+  rating: "up" | "down";
+  onSubmit: (comment: string) => void;
+  onDismiss: () => void;
+};
+
+const MAX_COMMENT_LENGTH = 2000;
+
+export function FeedbackComment({ rating, onSubmit, onDismiss }: FeedbackCommentProps) {
+  const [comment, setComment] = useState("");
+
+  return (
+    <form
+      className="absolute inset-x-4 bottom-10 z-10 rounded-xl border border-slate-200 bg-white p-3 text-slate-700 shadow-sm dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100"
+      onSubmit={(event) => {
+        event.preventDefault();
+        onSubmit(comment);
+      }}
+    >
+      <label htmlFor="feedback-comment" className="block text-sm font-medium">
+        {rating === "up"
+          ? "ধন্যবাদ! আর কিছু বলতে চান? · Thanks! Anything to add?"
+          : "কী ভুল ছিল? · What went wrong?"}
+      </label>
+      <textarea
+        id="feedback-comment"
+        className="mt-2 w-full resize-none rounded-lg border border-slate-300 bg-transparent px-3 py-2 text-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500 dark:border-slate-600"
+        rows={2}
+        maxLength={MAX_COMMENT_LENGTH}
+        value={comment}
+        onChange={(event) => setComment(event.target.value)}
+        placeholder="ঐচ্ছিক · Optional"
+      />
+      <div className="mt-2 flex justify-end gap-2">
+        <button
+          type="button"
+          className="rounded-lg px-3 py-1.5 text-sm font-semibold transition hover:bg-slate-100 dark:hover:bg-slate-700"
+          onClick={onDismiss}
+        >
+          বাদ দিন · Skip
+        </button>
+        <button
+          type="submit"
+          disabled={!comment.trim()}
+          className="rounded-lg bg-slate-900 px-3 py-1.5 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:opacity-50 dark:bg-slate-100 dark:text-slate-900 dark:hover:bg-slate-200"
+        >
+          পাঠান · Send
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,50 @@
+"use client";
+
+import { useState } from "react";
+import type { SavedFact } from "@/lib/facts";
+
+type SavedFactsPanelProps = {
+  facts: SavedFact[];
+  onDelete: (id: string) => void;
+};
+
+export function SavedFactsPanel({ facts, onDelete }: SavedFactsPanelProps) {
+  const [open, setOpen] = useState(false);
+
+  if (facts.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="mb-3 rounded-2xl bg-white px-4 py-3 text-slate-700 shadow-sm dark:bg-slate-900 dark:text-slate-100">
+      <button
+        type="button"
+        aria-expanded={open}
+        aria-controls="saved-facts-list"
+        className="flex w-full items-center justify-between text-sm font-semibold"
+        onClick={() => setOpen((value) => !value)}
+      >
+        <span>
+          আমার সংরক্ষিত তথ্য · My saved facts ({facts.length})
+        </span>
+        <span aria-hidden="true">{open ? "−" : "+"}</span>
+      </button>
+      {open ? (
+        <ul id="saved-facts-list" className="mt-2 divide-y divide-slate-200 dark:divide-slate-700">
+          {facts.map((fact) => (
+            <li key={fact.id} className="flex items-start justify-between gap-3 py-2 text-sm">
+              <span className="min-w-0 break-words">{fact.text}</span>
+              <button
+                type="button"
+                className="shrink-0 text-xs text-slate-500 underline-offset-2 hover:underline dark:text-slate-400"
+                onClick={() => onDelete(fact.id)}
+              >
+                মুছুন · Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,67 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import type { CapturedRating } from "@/lib/capture";
+
+/**
+ * Sends answer ratings to /api/feedback and keeps the latest one around so
+ * the user can add a comment to it. A comment is sent as a second record
+ * with the rating's id; readers keep the latest record per id.
+ */
+
+export type SentRating = CapturedRating & { id: string };
+
+type AnswerFeedback = {
+  /** Pass to `useTurnCapture` as its `onRating`. */
+  onRating: (rating: CapturedRating) => void;
+  /** The rating waiting for an optional comment, if any. */
+  pending: SentRating | null;
+  submitComment: (comment: string) => void;
+  dismiss: () => void;
+};
+
+function postFeedback(rating: SentRating, comment: string): void {
+  const payload = {
+    type: "feedback",
+    id: rating.id,
+    rating: rating.rating,
+    comment,
+    turn_id: rating.turnId ?? "",
+    thread_id: rating.threadId ?? "",
+    item_ids: rating.itemIds,
+    consent: "granted",
+    meta: { path: location.pathname },
+  };
+  void fetch("/api/feedback", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(payload),
+  }).catch((error) => {
+    if (process.env.NODE_ENV !== "production") {
+      console.warn("[useAnswerFeedback] Failed to send feedback", error);
+    }
+  });
+}
+
+export function useAnswerFeedback(): AnswerFeedback {
+  const [pending, setPending] = useState<SentRating | null>(null);
+
+  const onRating = useCallback((rating: CapturedRating) => {
+    const sent = { ...rating, id: crypto.randomUUID() };
+    postFeedback(sent, "");
+    setPending(sent);
+  }, []);
+
+  const submitComment = useCallback(
+    (comment: string) => {
+      const trimmed = comment.trim();
+      if (pending && trimmed) postFeedback(pending, trimmed);
+      setPending(null);
+    },
+    [pending]
+  );
+
+  const dismiss = useCallback(() => setPending(null), []);
+
+  return { onRating, pending, submitComment, dismiss };
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import { useCallback, useSyncExternalStore } from "react";
+
+/**
+ * Whether this browser agreed to have its conversations logged. The choice
+ * is kept in localStorage; `null` means the user has not been asked yet and
+ * `undefined` that storage has not been read (server render).
+ */
+export type LogConsent = "granted" | "declined";
+
+const STORAGE_KEY = "chatkit-log-consent";
+const CHANGE_EVENT = "chatkit-log-consent-change";
+
+function readStoredConsent(): LogConsent | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    return raw === "granted" || raw === "declined" ? raw : null;
+  } catch (error) {
+    if (process.env.NODE_ENV !== "production") {
+      console.warn("[useLogConsent] Failed to read consent", error);
+    }
+    return null;
+  }
+}
+
+function persistConsent(consent: LogConsent | null): void {
+  try {
+    if (consent) {
+      window.localStorage.setItem(STORAGE_KEY, consent);
+    } else {
+      window.localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (error) {
+    if (process.env.NODE_ENV !== "production") {
+      console.warn("[useLogConsent] Failed to persist consent", error);
+    }
+  }
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+}
+
+function subscribe(listener: () => void): () => void {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) listener();
+  };
+  window.addEventListener("storage", handleStorage);
+  window.addEventListener(CHANGE_EVENT, listener);
+  return () => {
+    window.removeEventListener("storage", handleStorage);
+    window.removeEventListener(CHANGE_EVENT, listener);
+  };
+}
+
+function getServerSnapshot(): undefined {
+  return undefined;
+}
+
+type UseLogConsentResult = {
+  consent: LogConsent | null | undefined;
+  setConsent: (consent: LogConsent) => void;
+  resetConsent: () => void;
+};
+
+export function useLogConsent(): UseLogConsentResult {
+  const consent = useSyncExternalStore(subscribe, readStoredConsent, getServerSnapshot);
+
+  const setConsent = useCallback((next: LogConsent) => {
+    persistConsent(next);
+  }, []);
+
+  const resetConsent = useCallback(() => {
+    persistConsent(null);
+  }, []);
+
+  return { consent, setConsent, resetConsent };
+}
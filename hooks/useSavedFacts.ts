@@ -0,0 +1,90 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { SavedFact } from "@/lib/facts";
+
+/**
+ * The session's saved facts from /api/facts. `save` stores a fact and adds
+ * the server's copy to the list; `remove` hides a fact at once and reloads
+ * the list if the delete fails. Before the first chat there is no session
+ * cookie and the list is empty. Callers only save facts once the user has
+ * agreed to logging.
+ */
+
+type SavedFacts = {
+  facts: SavedFact[];
+  save: (fact: { id: string; text: string }) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+  refresh: () => Promise<void>;
+};
+
+const FACTS_ENDPOINT = "/api/facts";
+const FACT_ID = /^[A-Za-z0-9_-]{1,64}$/;
+
+function warn(message: string, error: unknown): void {
+  if (process.env.NODE_ENV !== "production") {
+    console.warn(`[useSavedFacts] ${message}`, error);
+  }
+}
+
+export function useSavedFacts(): SavedFacts {
+  const [facts, setFacts] = useState<SavedFact[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch(FACTS_ENDPOINT);
+      if (!response.ok) return;
+      const data = (await response.json()) as { facts?: SavedFact[] };
+      setFacts(data.facts ?? []);
+    } catch (error) {
+      warn("Failed to load facts", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const save = useCallback(async ({ id, text }: { id: string; text: string }) => {
+    // Ids the API cannot store are replaced by a server-generated one.
+    const factId = FACT_ID.test(id) ? id : undefined;
+    try {
+      const response = await fetch(FACTS_ENDPOINT, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ id: factId, text, consent: "granted" }),
+      });
+      const data = (await response.json().catch(() => ({}))) as { fact?: SavedFact };
+      const saved = data.fact;
+      if (!response.ok || !saved) {
+        warn("Failed to save fact", response.status);
+        return;
+      }
+      setFacts((current) =>
+        current.some((f) => f.id === saved.id) ? current : [...current, saved]
+      );
+    } catch (error) {
+      warn("Failed to save fact", error);
+    }
+  }, []);
+
+  const remove = useCallback(
+    async (id: string) => {
+      setFacts((current) => current.filter((f) => f.id !== id));
+      try {
+        const response = await fetch(`${FACTS_ENDPOINT}?id=${encodeURIComponent(id)}`, {
+          method: "DELETE",
+        });
+        if (!response.ok && response.status !== 404) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+      } catch (error) {
+        warn("Failed to delete fact", error);
+        await refresh();
+      }
+    },
+    [refresh]
+  );
+
+  return { facts, save, remove, refresh };
+}
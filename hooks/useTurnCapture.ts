@@ -0,0 +1,144 @@
+"use client";
+
+import { useCallback, useEffect, useRef } from "react";
+import {
+  createTurnCapture,
+  ratingFromLog,
+  tapFetch,
+  tapXhrUploads,
+  type CapturedRating,
+  type CapturedTurn,
+  type TurnCapture,
+} from "@/lib/capture";
+import { ARCHIVE_ATTACHMENTS, isArchivable } from "@/lib/attachments";
+
+/**
+ * Logs each completed turn to /api/log-event once. Returns handlers to pass
+ * to `useChatKit`, whose response and thread events mark turn boundaries.
+ * Answer ratings seen on the way are linked to their turn and handed to
+ * `onRating`. With attachment archiving on, uploaded images of a logged turn
+ * are sent to /api/attachments once the server has stored the turn, which
+ * it checks them against. Nothing is read or sent while
+ * `enabled` is false.
+ */
+
+type TurnCaptureHandlers = {
+  onResponseStart: () => void;
+  onResponseEnd: () => void;
+  onThreadChange: (event: { threadId: string | null }) => void;
+  onError: () => void;
+  onLog: (event: { name: string; data?: Record<string, unknown> }) => void;
+};
+
+// Turn ids double as the server's idempotency key, so they must be unique
+// across users, not just per tab.
+const createTurnId = (): string => crypto.randomUUID();
+
+function postTurn(turn: CapturedTurn): void {
+  const payload = {
+    type: "turn",
+    id: turn.id,
+    user_text: turn.userText,
+    user_ts: turn.userTs,
+    assistant_text: turn.assistantText,
+    assistant_ts: turn.assistantTs,
+    thread_id: turn.threadId ?? "",
+    seq: turn.seq,
+    consent: "granted",
+    metrics: {
+      start_ms: turn.metrics.startMs,
+      first_token_ms: turn.metrics.firstTokenMs,
+      stream_ms: turn.metrics.streamMs,
+      bytes: turn.metrics.bytes,
+      truncated: turn.metrics.truncated,
+    },
+    attachments: turn.attachments.map(({ type, size, sha256 }) => ({ type, size, sha256 })),
+    item_ids: turn.itemIds,
+    meta: { path: location.pathname },
+  };
+  void fetch("/api/log-event", {
+    method: "POST",
+    headers: { "content-type": "application/json", "idempotency-key": turn.id },
+    body: JSON.stringify(payload),
+  })
+    .then((response) => {
+      if (response.ok && ARCHIVE_ATTACHMENTS && turn.threadId) {
+        archiveAttachments(turn, turn.threadId);
+      }
+    })
+    .catch((error) => {
+      if (process.env.NODE_ENV !== "production") {
+        console.warn("[useTurnCapture] Failed to log turn", error);
+      }
+    });
+}
+
+function archiveAttachments(turn: CapturedTurn, threadId: string): void {
+  const query = new URLSearchParams({ thread_id: threadId, turn_id: turn.id });
+  for (const { file, type, size } of turn.attachments) {
+    if (!file || !isArchivable(type, size)) continue;
+    void fetch(`/api/attachments?${query}`, {
+      method: "POST",
+      headers: { "content-type": type },
+      body: file,
+    }).catch((error) => {
+      if (process.env.NODE_ENV !== "production") {
+        console.warn("[useTurnCapture] Failed to archive attachment", error);
+      }
+    });
+  }
+}
+
+export function useTurnCapture(
+  enabled: boolean,
+  onRating?: (rating: CapturedRating) => void
+): TurnCaptureHandlers {
+  const enabledRef = useRef(enabled);
+  enabledRef.current = enabled;
+  const onRatingRef = useRef(onRating);
+  onRatingRef.current = onRating;
+  const captureRef = useRef<TurnCapture | null>(null);
+
+  useEffect(() => {
+    const isEnabled = () => enabledRef.current;
+    const capture = createTurnCapture({
+      createId: createTurnId,
+      send: (turn) => {
+        if (isEnabled()) postTurn(turn);
+      },
+      sendRating: (rating) => {
+        if (isEnabled()) onRatingRef.current?.(rating);
+      },
+    });
+    captureRef.current = capture;
+    const untapFetch = tapFetch(capture, isEnabled);
+    return () => {
+      untapFetch();
+      capture.dispose();
+      captureRef.current = null;
+    };
+  }, []);
+
+  // XMLHttpRequest is only patched while logging is on.
+  useEffect(() => {
+    const capture = captureRef.current;
+    if (!enabled || !capture) return;
+    return tapXhrUploads(capture, () => enabledRef.current);
+  }, [enabled]);
+
+  const onResponseStart = useCallback(() => captureRef.current?.responseStart(), []);
+  const onResponseEnd = useCallback(() => captureRef.current?.responseEnd(), []);
+  const onError = useCallback(() => captureRef.current?.responseError(), []);
+  const onThreadChange = useCallback(
+    ({ threadId }: { threadId: string | null }) => captureRef.current?.threadChange(threadId),
+    []
+  );
+  // The fetch tap normally sees ratings first; this covers hosts where
+  // ChatKit's traffic bypasses `window.fetch`.
+  const onLog = useCallback(({ name, data }: { name: string; data?: Record<string, unknown> }) => {
+    const rating = ratingFromLog(name, data);
+    if (rating && enabledRef.current) captureRef.current?.rating(rating);
+  }, []);
+
+  return { onResponseStart, onResponseEnd, onThreadChange, onError, onLog };
+}
@@ -0,0 +1,15 @@
+import type { NextRequest } from "next/server";
+
+/**
+ * Authorisation for /api/admin/* routes:
+ *  - Automatic cron: Authorization: Bearer <CRON_SECRET>
+ *  - Manual: ?key=<LOG_ADMIN_KEY>
+ */
+export function isAdminRequest(req: NextRequest): boolean {
+  const auth = req.headers.get("authorization") || "";
+  const bearerOk = !!process.env.CRON_SECRET && auth === `Bearer ${process.env.CRON_SECRET}`;
+  if (bearerOk) return true;
+  const url = new URL(req.url);
+  const key = url.searchParams.get("key") ?? "";
+  return !!process.env.LOG_ADMIN_KEY && key === process.env.LOG_ADMIN_KEY;
+}
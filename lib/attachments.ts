@@ -0,0 +1,70 @@
+import type { LogStore } from "@/lib/logStore";
+
+/**
+ * Uploaded files. Turns always carry metadata (type, size, SHA-256). With
+ * NEXT_PUBLIC_LOG_ATTACHMENTS=archive, images are also copied into the log
+ * store by /api/attachments at
+ *
+ *   attachments/<day>/<thread id>/<sha256>.<ext>
+ *
+ * next to, not under, `logs/<day>/`, whose objects compaction expects to be
+ * records. Retention expires them with their day; erasure removes the
+ * threads of the erased session.
+ *
+ * Imported by client code, so only type imports from the store.
+ */
+
+export const ARCHIVE_ATTACHMENTS =
+  process.env.NEXT_PUBLIC_LOG_ATTACHMENTS?.trim().toLowerCase() === "archive";
+
+/** Kept below the 4.5 MB request body limit of Vercel functions. */
+export const MAX_ARCHIVED_BYTES = 4 * 1024 * 1024;
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "image/heic": "heic",
+  "image/heif": "heif",
+};
+
+const THREAD_ID = /^[A-Za-z0-9_-]{1,200}$/;
+
+export const ATTACHMENTS_PREFIX = "attachments/";
+
+/** Whether files of this MIME type are archived in archive mode. */
+export const isArchivableType = (type: string) => type in IMAGE_EXTENSIONS;
+
+/** Whether a file of this type and size is archived in archive mode. */
+export function isArchivable(type: string, size: number): boolean {
+  return isArchivableType(type) && size > 0 && size <= MAX_ARCHIVED_BYTES;
+}
+
+export const isThreadId = (id: string) => THREAD_ID.test(id);
+
+export const attachmentDayPrefix = (day: string) => `${ATTACHMENTS_PREFIX}${day}/`;
+
+export const attachmentThreadPrefix = (day: string, threadId: string) =>
+  `${attachmentDayPrefix(day)}${threadId}/`;
+
+export function attachmentKey(
+  day: string,
+  threadId: string,
+  sha256: string,
+  type: string
+): string {
+  return `${attachmentThreadPrefix(day, threadId)}${sha256}.${IMAGE_EXTENSIONS[type] ?? "bin"}`;
+}
+
+/** Every key under `prefix`, following list cursors. */
+export async function listAttachmentKeys(store: LogStore, prefix: string): Promise<string[]> {
+  const keys: string[] = [];
+  let cursor: string | null = null;
+  do {
+    const page = await store.list(prefix, { cursor });
+    keys.push(...page.objects.map((o) => o.key));
+    cursor = page.cursor;
+  } while (cursor);
+  return keys;
+}
@@ -0,0 +1,21 @@
+export {
+  createTurnCapture,
+  type CapturedAttachment,
+  type CapturedRating,
+  type CapturedTurn,
+  type StreamDetail,
+  type TurnCapture,
+  type TurnCaptureOptions,
+  type TurnMetrics,
+} from "./turns";
+export { tapFetch, tapXhrUploads } from "./sources";
+export {
+  assistantReplyFromSse,
+  assistantTextFromJson,
+  assistantTextFromSse,
+  ratingFromLog,
+  ratingFromRequest,
+  userTextFromRequest,
+  type AssistantReply,
+  type ItemRating,
+} from "./parse";
@@ -0,0 +1,130 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+  assistantReplyFromSse,
+  assistantTextFromJson,
+  assistantTextFromSse,
+  ratingFromLog,
+  ratingFromRequest,
+  userTextFromRequest,
+} from "@/lib/capture/parse";
+
+// Request bodies and response streams as ChatKit sends them, plus the
+// stream of the bundled mock server (scripts/mock-chatkit.mjs).
+const fixture = (name: string) => readFileSync(join(__dirname, "fixtures", name), "utf8");
+
+const REPLY =
+  "পাতার বাদামি দাগ সাধারণত ব্রাউন স্পট রোগ। আক্রান্ত পাতা তুলে ফেলুন এবং সুষম সার দিন।";
+
+describe("assistantTextFromSse", () => {
+  it("reads the assistant message of a ChatKit stream", () => {
+    expect(assistantTextFromSse(fixture("chatkit-create.sse"))).toBe(REPLY);
+  });
+
+  it("joins the assistant messages of one response", () => {
+    expect(assistantTextFromSse(fixture("chatkit-two-messages.sse"))).toBe(
+      `${REPLY}\n\nস্থানীয় কৃষি অফিসে যোগাযোগ করুন।`
+    );
+  });
+
+  it("keeps the deltas of a stream cut off mid-event", () => {
+    expect(assistantTextFromSse(fixture("chatkit-truncated.sse"))).toBe(
+      "পাতার বাদামি দাগ সাধারণত ব্রাউন স্পট রোগ। "
+    );
+  });
+
+  it("does not repeat deltas followed by the full output_text", () => {
+    expect(assistantTextFromSse(fixture("mock-deltas.sse"))).toBe("You said: hello");
+  });
+
+  it("reads the text of every prefix of a stream without throwing", () => {
+    const raw = fixture("chatkit-create.sse");
+    const firstDelta = raw.indexOf("text_delta");
+    expect(assistantTextFromSse(raw.slice(0, firstDelta))).toBe("");
+    expect(assistantTextFromSse(raw.slice(0, raw.indexOf("\n\n", firstDelta)))).toBe(
+      "পাতার বাদামি দাগ "
+    );
+  });
+
+  it("ignores the user's message and other events", () => {
+    const raw = fixture("chatkit-create.sse");
+    const beforeReply = raw.slice(0, raw.indexOf('"assistant_message"'));
+    expect(assistantTextFromSse(beforeReply)).toBe("");
+  });
+});
+
+describe("assistantReplyFromSse", () => {
+  it("returns the ids of the assistant messages", () => {
+    expect(assistantReplyFromSse(fixture("chatkit-two-messages.sse")).itemIds).toEqual([
+      "msg_68f2a1c3f1c08190",
+      "msg_68f2a1c9b2748190",
+    ]);
+  });
+
+  it("returns no ids for streams without ChatKit items", () => {
+    expect(assistantReplyFromSse(fixture("mock-deltas.sse"))).toEqual({
+      text: "You said: hello",
+      itemIds: [],
+    });
+  });
+});
+
+describe("assistantTextFromJson", () => {
+  it("reads output_text and rejects other bodies", () => {
+    expect(assistantTextFromJson('{"output_text":"ঠিক আছে"}')).toBe("ঠিক আছে");
+    expect(assistantTextFromJson('{"status":"ok"}')).toBe("");
+    expect(assistantTextFromJson("not json")).toBe("");
+  });
+});
+
+describe("userTextFromRequest", () => {
+  it("reads a ChatKit threads.create request", () => {
+    expect(userTextFromRequest(fixture("chatkit-create.request.json"))).toBe(
+      "ধানের পাতায় বাদামি দাগ, কী করব?"
+    );
+  });
+
+  it("reads only the text parts of a threads.add_user_message request", () => {
+    expect(userTextFromRequest(fixture("chatkit-add-message.request.json"))).toBe(
+      "সার কতটুকু দেব?"
+    );
+  });
+
+  it("reads input strings and message lists", () => {
+    expect(userTextFromRequest('{"input":"হ্যালো"}')).toBe("হ্যালো");
+    expect(
+      userTextFromRequest(
+        JSON.stringify({
+          messages: [
+            { role: "system", content: "be brief" },
+            { role: "user", content: [{ type: "text", text: "বীজ কখন বুনব?" }] },
+          ],
+        })
+      )
+    ).toBe("বীজ কখন বুনব?");
+  });
+
+  it("returns nothing for other bodies", () => {
+    expect(userTextFromRequest(fixture("chatkit-feedback.request.json"))).toBe("");
+    expect(userTextFromRequest("")).toBe("");
+    expect(userTextFromRequest("null")).toBe("");
+  });
+});
+
+describe("ratings", () => {
+  it("reads a threads.add_feedback request", () => {
+    expect(ratingFromRequest(fixture("chatkit-feedback.request.json"))).toEqual({
+      rating: "down",
+      threadId: "thr_68f2a1c0e4b88190",
+      itemIds: ["msg_68f2a1c3f1c08190"],
+    });
+    expect(ratingFromRequest(fixture("chatkit-create.request.json"))).toBeNull();
+  });
+
+  it("reads feedback log events only", () => {
+    const data = { kind: "positive", thread_id: "thr_1", item_ids: ["msg_1"] };
+    expect(ratingFromLog("thread.item.feedback", data)?.rating).toBe("up");
+    expect(ratingFromLog("response.start", data)).toBeNull();
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * Pure helpers that pull conversation text out of ChatKit HTTP traffic.
+ * Kept free of DOM and React so they can be exercised against recorded
+ * request bodies and SSE streams.
+ */
+
+type TextPart = { type: string; text?: unknown };
+type Message = { role: string; content: string | TextPart[] };
+type Payload = {
+  input?: string | Message[];
+  messages?: Message[];
+  /** ChatKit's `threads.create` / `threads.add_user_message` requests. */
+  params?: { input?: { content?: TextPart[] } };
+};
+
+/** Assistant text read from a response, with the ChatKit items it came in. */
+export type AssistantReply = {
+  text: string;
+  /** Ids of the assistant message items, in order; [] for other streams. */
+  itemIds: string[];
+};
+
+/** A thumbs up/down given on ChatKit thread items. */
+export type ItemRating = {
+  rating: "up" | "down";
+  threadId: string | null;
+  itemIds: string[];
+};
+
+/** The first user message in a request body, or "". */
+export function userTextFromRequest(raw: string): string {
+  let payload: Payload;
+  try {
+    payload = JSON.parse(raw) as Payload;
+  } catch {
+    return "";
+  }
+  const chatkit = payload?.params?.input?.content;
+  if (Array.isArray(chatkit)) return partsText(chatkit, "input_text");
+  if (typeof payload?.input === "string") return payload.input;
+  for (const list of [payload?.input, payload?.messages]) {
+    if (!Array.isArray(list)) continue;
+    const user = list.find((m) => m && m.role === "user");
+    if (user) return messageText(user);
+  }
+  return "";
+}
+
+/**
+ * Assistant text from a complete SSE body. Deltas are concatenated; an event
+ * carrying the full `output_text` replaces whatever was accumulated, so a
+ * stream that sends both does not duplicate the reply.
+ *
+ * ChatKit's own `thread.item.*` events are read per assistant message: text
+ * deltas build each message up and `thread.item.done` replaces it with the
+ * final content. A response with several messages yields them joined by a
+ * blank line; when it has any, other events in the stream are ignored.
+ */
+export function assistantTextFromSse(raw: string): string {
+  return assistantReplyFromSse(raw).text;
+}
+
+/** As assistantTextFromSse, also returning the ids of ChatKit's messages. */
+export function assistantReplyFromSse(raw: string): AssistantReply {
+  let text = "";
+  const items = new Map<string, string>();
+  for (const line of raw.split(/\r?\n/)) {
+    const data = line.trim();
+    if (!data.startsWith("data:")) continue;
+    const obj = parseData(data);
+    if (!obj) continue;
+    if (readThreadItem(obj, items)) continue;
+    const event = parseEvent(obj);
+    if (!event) continue;
+    if (event.full !== null) {
+      text = event.full;
+    } else if (event.delta) {
+      text += event.delta;
+    }
+  }
+  const messages = Array.from(items).filter(([, m]) => m.trim());
+  return messages.length > 0
+    ? { text: messages.map(([, m]) => m).join("\n\n"), itemIds: messages.map(([id]) => id) }
+    : { text, itemIds: [] };
+}
+
+/** Assistant text from a non-streaming JSON response, or "". */
+export function assistantTextFromJson(raw: string): string {
+  try {
+    return outputText(JSON.parse(raw) as Record<string, unknown>) ?? "";
+  } catch {
+    return "";
+  }
+}
+
+/** The rating in a ChatKit `threads.add_feedback` request, or null. */
+export function ratingFromRequest(raw: string): ItemRating | null {
+  let payload: { type?: unknown; params?: unknown };
+  try {
+    payload = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (payload?.type !== "threads.add_feedback") return null;
+  return ratingFrom(payload.params);
+}
+
+/**
+ * The rating in a `chatkit.log` diagnostic event, or null. Event names and
+ * data are not part of ChatKit's documented API, so this only accepts
+ * feedback-named events whose data has the same shape as the request params.
+ */
+export function ratingFromLog(name: string, data: unknown): ItemRating | null {
+  return /feedback/i.test(name) ? ratingFrom(data) : null;
+}
+
+/** Reads a fetch body into text where that can be done without consuming it. */
+export async function bodyToText(body: unknown): Promise<string> {
+  try {
+    if (typeof body === "string") return body;
+    if (body instanceof Blob) return await body.text();
+    if (body instanceof ArrayBuffer) return new TextDecoder().decode(body);
+    if (ArrayBuffer.isView(body)) return new TextDecoder().decode(body);
+  } catch {
+    // unreadable bodies carry no text we can use
+  }
+  return "";
+}
+
+/* -------------------------------------------------------------------------- */
+
+function ratingFrom(params: unknown): ItemRating | null {
+  if (typeof params !== "object" || params === null) return null;
+  const p = params as Record<string, unknown>;
+  const rating = p.kind === "positive" ? "up" : p.kind === "negative" ? "down" : null;
+  if (!rating) return null;
+  return {
+    rating,
+    threadId: typeof p.thread_id === "string" ? p.thread_id : null,
+    itemIds: Array.isArray(p.item_ids)
+      ? p.item_ids.filter((id): id is string => typeof id === "string")
+      : [],
+  };
+}
+
+function messageText(message: Message): string {
+  if (typeof message.content === "string") return message.content;
+  if (!Array.isArray(message.content)) return "";
+  const part = message.content.find((c) => c && c.type === "text");
+  return part && typeof part.text === "string" ? part.text : "";
+}
+
+/** The text of every part of the given type, concatenated. */
+function partsText(parts: TextPart[], type: string): string {
+  return parts
+    .filter((p) => p && p.type === type && typeof p.text === "string")
+    .map((p) => p.text as string)
+    .join("");
+}
+
+function parseData(line: string): Record<string, unknown> | null {
+  const start = line.indexOf("{");
+  if (start < 0) return null;
+  try {
+    const obj: unknown = JSON.parse(line.slice(start));
+    return typeof obj === "object" && obj !== null ? (obj as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Applies a ChatKit `thread.item.*` event to the assistant messages seen so
+ * far. Returns false for events of any other kind.
+ */
+function readThreadItem(obj: Record<string, unknown>, items: Map<string, string>): boolean {
+  const type = typeof obj.type === "string" ? obj.type : "";
+  if (!type.startsWith("thread.item.")) return false;
+
+  if (type === "thread.item.updated") {
+    const update = obj.update as { type?: unknown; delta?: unknown } | undefined;
+    const id = obj.item_id;
+    if (
+      typeof id === "string" &&
+      update?.type === "assistant_message.content_part.text_delta" &&
+      typeof update.delta === "string"
+    ) {
+      items.set(id, (items.get(id) ?? "") + update.delta);
+    }
+    return true;
+  }
+
+  const item = obj.item as { id?: unknown; type?: unknown; content?: unknown } | undefined;
+  if (item?.type !== "assistant_message" || typeof item.id !== "string") return true;
+  const content = Array.isArray(item.content) ? partsText(item.content, "output_text") : "";
+  if (type === "thread.item.done" || !items.has(item.id)) items.set(item.id, content);
+  return true;
+}
+
+function parseEvent(obj: Record<string, unknown>): { full: string | null; delta: string } | null {
+  const full = outputText(obj);
+  if (full !== null) return { full, delta: "" };
+
+  const delta = obj.delta;
+  if (delta && typeof delta === "object" && typeof (delta as { text?: unknown }).text === "string") {
+    return { full: null, delta: (delta as { text: string }).text };
+  }
+  if (typeof delta === "string") return { full: null, delta };
+  if (typeof obj.text === "string") return { full: null, delta: obj.text };
+  return null;
+}
+
+function outputText(obj: Record<string, unknown>): string | null {
+  const ot = obj.output_text;
+  if (typeof ot === "string") return ot;
+  if (Array.isArray(ot) && ot.every((v) => typeof v === "string")) return ot.join("");
+  return null;
+}
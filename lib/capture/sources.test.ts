@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { tapXhrUploads } from "@/lib/capture/sources";
+import type { TurnCapture } from "@/lib/capture/turns";
+
+/** Stands in for the browser's XMLHttpRequest; `send` records what went out. */
+class FakeXhr {
+  static sent: unknown[] = [];
+  open() {}
+  send(body?: unknown) {
+    FakeXhr.sent.push(body);
+  }
+}
+
+const image = () =>
+  new File([new Uint8Array([0x89, 0x50, 0x4e, 0x47])], "a.png", { type: "image/png" });
+
+function upload(url: string) {
+  const xhr = new XMLHttpRequest();
+  xhr.open("POST", url);
+  const form = new FormData();
+  form.append("file", image());
+  xhr.send(form);
+}
+
+describe("tapXhrUploads", () => {
+  let capture: TurnCapture;
+  let attachment: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.stubGlobal("window", {
+      location: { href: "https://app.test/", origin: "https://app.test" },
+    });
+    vi.stubGlobal("XMLHttpRequest", class extends FakeXhr {});
+    FakeXhr.sent = [];
+    attachment = vi.fn();
+    capture = { attachment } as unknown as TurnCapture;
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("reports files uploaded to ChatKit", async () => {
+    const untap = tapXhrUploads(capture, () => true);
+    upload("https://api.openai.com/v1/chatkit/files");
+
+    await vi.waitFor(() => expect(attachment).toHaveBeenCalledTimes(1));
+    expect(attachment.mock.calls[0][0]).toMatchObject({ type: "image/png", size: 4 });
+    expect(FakeXhr.sent).toHaveLength(1);
+    untap();
+  });
+
+  it("leaves other requests alone", async () => {
+    const untap = tapXhrUploads(capture, () => true);
+    upload("https://cdn.example.com/upload");
+    upload("https://app.test/api/attachments");
+    untap();
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(attachment).not.toHaveBeenCalled();
+    expect(FakeXhr.sent).toHaveLength(2);
+  });
+
+  it("restores the prototype when removed", () => {
+    const { open, send } = XMLHttpRequest.prototype;
+    const untap = tapXhrUploads(capture, () => true);
+    expect(XMLHttpRequest.prototype.send).not.toBe(send);
+
+    untap();
+    expect(XMLHttpRequest.prototype.open).toBe(open);
+    expect(XMLHttpRequest.prototype.send).toBe(send);
+  });
+
+  it("stops reporting once removed even if another patch sits on top", async () => {
+    const untap = tapXhrUploads(capture, () => true);
+    const tapped = XMLHttpRequest.prototype.send;
+    XMLHttpRequest.prototype.send = function (this: XMLHttpRequest, body) {
+      return tapped.call(this, body);
+    };
+    untap();
+    upload("https://api.openai.com/v1/chatkit/files");
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(attachment).not.toHaveBeenCalled();
+    expect(FakeXhr.sent).toHaveLength(1);
+  });
+});
@@ -0,0 +1,227 @@
+import {
+  assistantReplyFromSse,
+  assistantTextFromJson,
+  type AssistantReply,
+  bodyToText,
+  ratingFromRequest,
+  userTextFromRequest,
+} from "./parse";
+import type { StreamDetail, TurnCapture } from "./turns";
+
+/**
+ * Text and upload sources feeding a TurnCapture. All check `enabled()` before
+ * reading anything, so nothing is captured while logging consent is missing.
+ *
+ * ChatKit's events say when a turn starts and ends but carry no text, and the
+ * widget offers no way to read its thread, so these taps are how text gets
+ * in. They only read ChatKit's own requests and responses (see ./parse) and
+ * never change them. When the host routes ChatKit's traffic past
+ * `window.fetch` no text arrives and turns are not logged; ratings still come
+ * through ChatKit's log events.
+ */
+
+/**
+ * Wraps `window.fetch` to read user text, answer ratings and uploaded files
+ * from outgoing request bodies and assistant text from responses. Responses
+ * are read from a clone in the background; the caller gets the original
+ * response untouched.
+ */
+export function tapFetch(capture: TurnCapture, enabled: () => boolean): () => void {
+  const original = window.fetch;
+
+  const tapped: typeof window.fetch = async (input, init) => {
+    const url = requestUrl(input);
+    const method = (
+      init?.method ?? (input instanceof Request ? input.method : "GET")
+    ).toUpperCase();
+    const outgoing = method !== "GET" && method !== "HEAD" && !isAppRequest(url) && enabled();
+    const files = outgoing ? await requestFiles(input, init) : [];
+    if (files.length > 0) void reportAttachments(capture, files);
+    // Upload responses carry no assistant text.
+    let watch = outgoing && method === "POST" && files.length === 0;
+
+    if (watch) {
+      const body =
+        input instanceof Request
+          ? await input.clone().text().catch(() => "")
+          : await bodyToText(init?.body);
+      const rating = ratingFromRequest(body);
+      if (rating) {
+        capture.rating(rating);
+        // Feedback responses carry no assistant text.
+        watch = false;
+      } else {
+        capture.userText(userTextFromRequest(body));
+      }
+    }
+
+    const response = await original(input, init);
+
+    if (watch) {
+      void readAssistant(response.clone())
+        .then(({ text, detail }) => capture.assistantText(text, detail))
+        .catch(() => undefined);
+    }
+    return response;
+  };
+
+  window.fetch = tapped;
+  return () => {
+    if (window.fetch === tapped) window.fetch = original;
+  };
+}
+
+/**
+ * Uploads made with XMLHttpRequest, which browsers use when they need upload
+ * progress, never pass through `window.fetch`. Patches `open` and `send` to
+ * report files in the bodies of ChatKit uploads only; other requests pass
+ * straight through. Meant to be installed only while logging is on: the
+ * returned function restores the prototype, or, when another script has
+ * patched it since, leaves the patch in place doing nothing.
+ */
+export function tapXhrUploads(capture: TurnCapture, enabled: () => boolean): () => void {
+  const proto = XMLHttpRequest.prototype;
+  const originalOpen = proto.open;
+  const originalSend = proto.send;
+  const uploads = new WeakSet<XMLHttpRequest>();
+  let active = true;
+
+  const open = function (this: XMLHttpRequest, ...args: unknown[]) {
+    if (active && isChatKitUpload(String(args[1] ?? ""))) {
+      uploads.add(this);
+    } else {
+      uploads.delete(this);
+    }
+    return (originalOpen as (...a: unknown[]) => void).apply(this, args);
+  } as typeof proto.open;
+  const send = function (this: XMLHttpRequest, body?: Document | XMLHttpRequestBodyInit | null) {
+    if (active && uploads.has(this) && enabled()) {
+      const files = filesInBody(body);
+      if (files.length > 0) void reportAttachments(capture, files);
+    }
+    return originalSend.call(this, body);
+  };
+
+  proto.open = open;
+  proto.send = send;
+  return () => {
+    active = false;
+    if (proto.open === open) proto.open = originalOpen;
+    if (proto.send === send) proto.send = originalSend;
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+
+function requestUrl(input: RequestInfo | URL): string {
+  if (typeof input === "string") return input;
+  if (input instanceof URL) return input.toString();
+  return input.url;
+}
+
+/** This app's own endpoints and assets never carry conversation text. */
+function isAppRequest(url: string): boolean {
+  try {
+    const parsed = new URL(url, window.location.href);
+    if (parsed.origin === window.location.origin) {
+      return parsed.pathname.startsWith("/api/") || parsed.pathname.startsWith("/_next/");
+    }
+    return parsed.pathname.includes("/track");
+  } catch {
+    return true;
+  }
+}
+
+/** ChatKit's file and attachment upload endpoints, e.g. `/v1/chatkit/files`. */
+function isChatKitUpload(url: string): boolean {
+  try {
+    const { pathname } = new URL(url, window.location.href);
+    return /\/chatkit\/(?:[^?#]*\/)?(?:files|attachments|uploads?)(?:\/|$)/.test(pathname);
+  } catch {
+    return false;
+  }
+}
+
+/** Files in a fetch request: multipart parts, or the body of a bare upload. */
+async function requestFiles(input: RequestInfo | URL, init?: RequestInit): Promise<Blob[]> {
+  if (!(input instanceof Request) || init?.body !== undefined) {
+    return filesInBody(init?.body);
+  }
+  const type = input.headers.get("content-type") ?? "";
+  try {
+    if (type.startsWith("multipart/form-data")) {
+      return filesInBody(await input.clone().formData());
+    }
+    if (isFileType(type)) {
+      return filesInBody(await input.clone().blob());
+    }
+  } catch {
+    // an unreadable body is not an upload we can describe
+  }
+  return [];
+}
+
+function filesInBody(body: unknown): Blob[] {
+  if (body instanceof FormData) {
+    return Array.from(body.values()).filter((v): v is File => v instanceof Blob && v.size > 0);
+  }
+  if (body instanceof Blob && body.size > 0 && isFileType(body.type)) {
+    return [body];
+  }
+  return [];
+}
+
+/** Anything but the text and JSON bodies API calls use. */
+function isFileType(type: string): boolean {
+  const mime = type.split(";")[0].trim().toLowerCase();
+  return mime !== "" && !mime.startsWith("text/") && mime !== "application/json";
+}
+
+async function reportAttachments(capture: TurnCapture, files: Blob[]): Promise<void> {
+  for (const file of files) {
+    try {
+      const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+      const sha256 = Array.from(new Uint8Array(digest), (b) =>
+        b.toString(16).padStart(2, "0")
+      ).join("");
+      capture.attachment({ type: file.type, size: file.size, sha256, file });
+    } catch {
+      // hashing needs a secure context; without it the file goes unreported
+    }
+  }
+}
+
+/** Reads a response chunk by chunk, noting when assistant text first appears. */
+async function readAssistant(
+  response: Response
+): Promise<{ text: string; detail: StreamDetail }> {
+  const isStream = (response.headers.get("content-type") ?? "").includes("text/event-stream");
+  const parse = (raw: string): AssistantReply =>
+    isStream ? assistantReplyFromSse(raw) : { text: assistantTextFromJson(raw), itemIds: [] };
+  const detail: StreamDetail = { firstTokenAt: null, bytes: 0, truncated: false };
+  const reader = response.body?.getReader();
+  if (!reader) {
+    return { text: "", detail };
+  }
+
+  const decoder = new TextDecoder();
+  let raw = "";
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      detail.bytes = (detail.bytes ?? 0) + value.byteLength;
+      raw += decoder.decode(value, { stream: true });
+      if (isStream && detail.firstTokenAt === null && parse(raw).text) {
+        detail.firstTokenAt = Date.now();
+      }
+    }
+    raw += decoder.decode();
+  } catch {
+    detail.truncated = true;
+  }
+  detail.endedAt = Date.now();
+  detail.firstTokenAt ??= detail.endedAt;
+  const { text, itemIds } = parse(raw);
+  return { text, detail: { ...detail, itemIds } };
+}
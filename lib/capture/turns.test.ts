@@ -0,0 +1,262 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  assistantReplyFromSse,
+  assistantTextFromSse,
+  ratingFromRequest,
+  userTextFromRequest,
+} from "@/lib/capture/parse";
+import {
+  createTurnCapture,
+  type CapturedRating,
+  type CapturedTurn,
+  type TurnCapture,
+} from "@/lib/capture/turns";
+
+const fixture = (name: string) => readFileSync(join(__dirname, "fixtures", name), "utf8");
+
+const GRACE_MS = 2_000;
+
+/** A capture on a fake clock whose timers only run when `advance` says so. */
+function setup() {
+  let clock = Date.parse("2025-10-17T09:12:30.000Z");
+  let nextId = 0;
+  const timers = new Map<number, { at: number; fn: () => void }>();
+  const sent: CapturedTurn[] = [];
+  const ratings: CapturedRating[] = [];
+
+  const capture = createTurnCapture({
+    send: (turn) => sent.push(turn),
+    sendRating: (rating) => ratings.push(rating),
+    createId: () => `turn-${++nextId}`,
+    now: () => new Date(clock),
+    graceMs: GRACE_MS,
+    setTimer: (fn, ms) => {
+      timers.set(++nextId, { at: clock + ms, fn });
+      return nextId;
+    },
+    clearTimer: (handle) => timers.delete(handle as number),
+  });
+
+  const advance = (ms: number) => {
+    clock += ms;
+    for (const [id, timer] of Array.from(timers)) {
+      if (timer.at > clock) continue;
+      timers.delete(id);
+      timer.fn();
+    }
+  };
+
+  return { capture, sent, ratings, timers, advance };
+}
+
+/** One exchange as the fetch tap and ChatKit's events report it. */
+function exchange(capture: TurnCapture, user: string, reply: string, itemIds: string[] = []) {
+  capture.userText(user);
+  capture.responseStart();
+  capture.assistantText(reply, { itemIds });
+  capture.responseEnd();
+}
+
+describe("createTurnCapture", () => {
+  let t: ReturnType<typeof setup>;
+  beforeEach(() => {
+    t = setup();
+  });
+
+  it("sends a turn built from recorded traffic once", () => {
+    const { capture, sent } = t;
+    capture.threadChange("thr_68f2a1c0e4b88190");
+    capture.userText(userTextFromRequest(fixture("chatkit-create.request.json")));
+    capture.responseStart();
+    capture.assistantText(assistantTextFromSse(fixture("chatkit-create.sse")));
+    capture.responseEnd();
+    capture.responseEnd();
+    capture.dispose();
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatchObject({
+      id: "turn-1",
+      userText: "ধানের পাতায় বাদামি দাগ, কী করব?",
+      threadId: "thr_68f2a1c0e4b88190",
+      seq: 1,
+    });
+    expect(sent[0].assistantText).toContain("ব্রাউন স্পট");
+  });
+
+  it("sends nothing more when later events repeat", () => {
+    const { capture, sent } = t;
+    exchange(capture, "প্রশ্ন", "উত্তর");
+    capture.assistantText("উত্তর");
+    capture.responseError();
+    capture.threadChange("thr_2");
+    capture.dispose();
+    expect(sent.map((turn) => turn.id)).toEqual(["turn-1"]);
+  });
+
+  it("numbers the turns of a thread", () => {
+    const { capture, sent } = t;
+    capture.threadChange("thr_1");
+    exchange(capture, "এক", "১");
+    exchange(capture, "দুই", "২");
+    expect(sent.map((turn) => [turn.userText, turn.seq])).toEqual([
+      ["এক", 1],
+      ["দুই", 2],
+    ]);
+  });
+
+  describe("grace period", () => {
+    it("waits for a reply still being read when the response ends", () => {
+      const { capture, sent, advance } = t;
+      capture.userText("প্রশ্ন");
+      capture.responseStart();
+      capture.responseEnd();
+      advance(GRACE_MS / 2);
+      expect(sent).toHaveLength(0);
+
+      capture.assistantText("দেরিতে আসা উত্তর");
+      expect(sent.map((turn) => turn.assistantText)).toEqual(["দেরিতে আসা উত্তর"]);
+      advance(GRACE_MS);
+      expect(sent).toHaveLength(1);
+    });
+
+    it("drops a turn whose reply never arrives", () => {
+      const { capture, sent, timers, advance } = t;
+      capture.userText("প্রশ্ন");
+      capture.responseStart();
+      capture.responseEnd();
+      advance(GRACE_MS);
+      capture.assistantText("too late");
+      expect(sent).toHaveLength(0);
+      expect(timers.size).toBe(0);
+    });
+
+    it("sends a turn with its reply at once, leaving no timer", () => {
+      const { capture, sent, timers } = t;
+      exchange(capture, "প্রশ্ন", "উত্তর");
+      expect(sent).toHaveLength(1);
+      expect(timers.size).toBe(0);
+    });
+
+    it("sends an unfinished turn, marked truncated, when the next response starts", () => {
+      const { capture, sent, timers } = t;
+      capture.responseStart();
+      capture.assistantText("আংশিক");
+      capture.responseStart();
+      expect(sent).toHaveLength(1);
+      expect(sent[0].metrics.truncated).toBe(true);
+      expect(timers.size).toBe(0);
+    });
+  });
+
+  describe("thread changes", () => {
+    it("closes the open turn and restarts numbering on the new thread", () => {
+      const { capture, sent } = t;
+      capture.threadChange("thr_1");
+      exchange(capture, "এক", "১");
+      capture.userText("দুই");
+      capture.responseStart();
+      capture.assistantText("২");
+      capture.threadChange("thr_2");
+      exchange(capture, "নতুন", "নতুন উত্তর");
+
+      expect(sent.map((turn) => [turn.threadId, turn.seq, turn.metrics.truncated])).toEqual([
+        ["thr_1", 1, false],
+        ["thr_1", 2, true],
+        ["thr_2", 1, false],
+      ]);
+    });
+
+    it("continues numbering when a thread is reopened", () => {
+      const { capture, sent } = t;
+      capture.threadChange("thr_1");
+      exchange(capture, "এক", "১");
+      exchange(capture, "দুই", "২");
+      capture.threadChange("thr_2");
+      exchange(capture, "অন্য", "অন্য উত্তর");
+      capture.threadChange("thr_1");
+      exchange(capture, "তিন", "৩");
+
+      expect(sent.map((turn) => [turn.threadId, turn.seq])).toEqual([
+        ["thr_1", 1],
+        ["thr_1", 2],
+        ["thr_2", 1],
+        ["thr_1", 3],
+      ]);
+    });
+
+    it("gives a new thread's first turn the id it gets mid-response", () => {
+      const { capture, sent } = t;
+      capture.threadChange(null);
+      capture.userText("প্রথম প্রশ্ন");
+      capture.responseStart();
+      capture.threadChange("thr_new");
+      capture.assistantText("উত্তর");
+      capture.responseEnd();
+
+      expect(sent).toHaveLength(1);
+      expect(sent[0]).toMatchObject({ threadId: "thr_new", seq: 1, userText: "প্রথম প্রশ্ন" });
+    });
+
+    it("discards text typed for the previous thread", () => {
+      const { capture, sent } = t;
+      capture.threadChange("thr_1");
+      capture.userText("পুরনো");
+      capture.threadChange("thr_2");
+      capture.responseStart();
+      capture.assistantText("উত্তর");
+      capture.responseEnd();
+      expect(sent[0].userText).toBe("");
+    });
+  });
+
+  describe("ratings", () => {
+    const rate = (itemIds: string[], threadId = "thr_1") => ({
+      rating: "up" as const,
+      threadId,
+      itemIds,
+    });
+
+    it("links a recorded rating to the turn holding the rated item", () => {
+      const { capture, sent, ratings } = t;
+      capture.threadChange("thr_68f2a1c0e4b88190");
+      capture.userText(userTextFromRequest(fixture("chatkit-create.request.json")));
+      capture.responseStart();
+      const reply = assistantReplyFromSse(fixture("chatkit-create.sse"));
+      capture.assistantText(reply.text, { itemIds: reply.itemIds });
+      capture.responseEnd();
+      exchange(capture, "আরেকটি প্রশ্ন", "আরেকটি উত্তর", ["msg_later"]);
+
+      capture.rating(ratingFromRequest(fixture("chatkit-feedback.request.json"))!);
+      expect(sent[0].itemIds).toEqual(["msg_68f2a1c3f1c08190"]);
+      expect(ratings.map((r) => [r.rating, r.turnId])).toEqual([["down", "turn-1"]]);
+    });
+
+    it("links an earlier answer, not the thread's latest turn", () => {
+      const { capture, ratings } = t;
+      capture.threadChange("thr_1");
+      exchange(capture, "এক", "১", ["msg_a"]);
+      exchange(capture, "দুই", "২", ["msg_b"]);
+      capture.rating(rate(["msg_a"]));
+      expect(ratings[0].turnId).toBe("turn-1");
+    });
+
+    it("leaves the turn empty when no sent turn holds the item", () => {
+      const { capture, ratings } = t;
+      capture.threadChange("thr_1");
+      exchange(capture, "এক", "১", ["msg_a"]);
+      exchange(capture, "দুই", "২");
+      capture.rating(rate(["msg_before_reload"]));
+      capture.rating({ ...rate([]), rating: "down" });
+      expect(ratings.map((r) => r.turnId)).toEqual([null, null]);
+    });
+
+    it("reports a rating seen by both the tap and the log events once", () => {
+      const { capture, ratings } = t;
+      capture.rating(rate(["msg_a"]));
+      capture.rating(rate(["msg_a"]));
+      expect(ratings).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * Turn assembly for conversation logging.
+ *
+ * ChatKit's own events decide where a turn begins and ends:
+ * `responseStart` opens a turn, `responseEnd` closes it, and a thread
+ * change closes whatever is open. The events carry no text, so the text is
+ * reported separately (see ./sources, which reads ChatKit's requests and
+ * response streams). A turn for which no reply text arrives is dropped
+ * rather than guessed.
+ *
+ * A closed turn is handed to `send` exactly once. Unless the reply has
+ * already arrived when the response ends, the turn waits up to `graceMs` for
+ * it (the stream may still be being read) and is then sent, or dropped.
+ *
+ * Each turn also carries timings measured from when the user's message was
+ * sent; first-token time and byte counts come from reading the stream.
+ *
+ * Files uploaded before a message is sent are reported as attachments and
+ * belong to the next turn that opens.
+ *
+ * Ratings name the ChatKit items they were given on. A rating is linked to
+ * the sent turn whose reply contained one of those items, and to no turn
+ * when none did (for example when the reply came before a reload).
+ */
+
+import type { ItemRating } from "./parse";
+
+export type TurnMetrics = {
+  /** Message sent → `responseStart`. */
+  startMs: number | null;
+  /** Message sent → first assistant text. */
+  firstTokenMs: number | null;
+  /** First assistant text → end of the response. */
+  streamMs: number | null;
+  /** Streamed response bytes, or the UTF-8 size of the reply if unknown. */
+  bytes: number;
+  /** The response errored, or the turn closed before the response ended. */
+  truncated: boolean;
+};
+
+/** A file the user uploaded. `file` is kept for archiving and not logged. */
+export type CapturedAttachment = {
+  type: string;
+  size: number;
+  sha256: string;
+  file?: Blob;
+};
+
+export type CapturedTurn = {
+  id: string;
+  userText: string;
+  userTs: string;
+  assistantText: string;
+  assistantTs: string;
+  threadId: string | null;
+  /**
+   * 1-based position of the turn in its thread, as seen by this page: it
+   * continues when the thread is reopened, but restarts after a reload.
+   */
+  seq: number;
+  metrics: TurnMetrics;
+  attachments: CapturedAttachment[];
+  /** ChatKit item ids of the reply's assistant messages; [] when unknown. */
+  itemIds: string[];
+};
+
+/** What was learned while reading a response stream. */
+export type StreamDetail = {
+  /** Epoch ms at which the first assistant text arrived. */
+  firstTokenAt?: number | null;
+  /** Epoch ms at which the stream finished or failed. */
+  endedAt?: number;
+  bytes?: number;
+  truncated?: boolean;
+  /** Ids of the assistant message items the text came from. */
+  itemIds?: string[];
+};
+
+/** An answer rating, linked to the sent turn holding a rated item. */
+export type CapturedRating = ItemRating & {
+  /** Id of the turn whose reply holds one of `itemIds`; null when none does. */
+  turnId: string | null;
+};
+
+export type TurnCaptureOptions = {
+  send: (turn: CapturedTurn) => void;
+  sendRating?: (rating: CapturedRating) => void;
+  createId: () => string;
+  now?: () => Date;
+  graceMs?: number;
+  setTimer?: (fn: () => void, ms: number) => unknown;
+  clearTimer?: (handle: unknown) => void;
+};
+
+export type TurnCapture = {
+  responseStart(): void;
+  responseEnd(): void;
+  /** Marks the open turn's response as failed. */
+  responseError(): void;
+  threadChange(threadId: string | null): void;
+  userText(text: string): void;
+  assistantText(text: string, detail?: StreamDetail): void;
+  rating(rating: ItemRating): void;
+  attachment(attachment: CapturedAttachment): void;
+  /** Sends or drops the open turn and stops all timers. */
+  dispose(): void;
+};
+
+type OpenTurn = {
+  id: string;
+  /** The thread the turn was opened in; later thread changes do not move it. */
+  threadId: string | null;
+  seq: number;
+  userText: string;
+  userTs: string;
+  sentAt: number | null;
+  startedAt: number;
+  assistant: string;
+  stream: StreamDetail;
+  ended: boolean;
+  endedAt: number | null;
+  failed: boolean;
+  closed: boolean;
+  timer: unknown;
+  attachments: CapturedAttachment[];
+};
+
+const DEFAULT_GRACE_MS = 2_000;
+
+export function createTurnCapture({
+  send,
+  sendRating,
+  createId,
+  now = () => new Date(),
+  graceMs = DEFAULT_GRACE_MS,
+  setTimer = (fn, ms) => setTimeout(fn, ms),
+  clearTimer = (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+}: TurnCaptureOptions): TurnCapture {
+  let threadId: string | null = null;
+  // Last seq used per thread, so a thread reopened in this tab continues.
+  const seqs = new Map<string, number>();
+  let pendingUser: { text: string; at: Date } | null = null;
+  let turn: OpenTurn | null = null;
+  let pendingAttachments: CapturedAttachment[] = [];
+  // Ratings arrive after their turn was sent: ChatKit item id → turn id.
+  const sentItems = new Map<string, string>();
+  // Both the request tap and ChatKit's log events can report the same click.
+  let lastRating = "";
+
+  const measure = (t: OpenTurn): TurnMetrics => {
+    const stream = t.stream;
+    const firstTokenAt = stream.firstTokenAt ?? null;
+    const endedAt = t.endedAt ?? stream.endedAt ?? null;
+    const elapsed = (from: number | null, to: number | null) =>
+      from !== null && to !== null ? Math.max(0, Math.round(to - from)) : null;
+    return {
+      startMs: elapsed(t.sentAt, t.startedAt),
+      firstTokenMs: elapsed(t.sentAt, firstTokenAt),
+      streamMs: elapsed(firstTokenAt, endedAt),
+      bytes: stream.bytes ?? new TextEncoder().encode(t.assistant).byteLength,
+      truncated: t.failed || !t.ended || Boolean(stream.truncated),
+    };
+  };
+
+  // Detach first so a throwing `send` can never cause a second attempt.
+  const close = (t: OpenTurn) => {
+    if (t.closed) return;
+    t.closed = true;
+    if (turn === t) turn = null;
+    if (t.timer !== null) clearTimer(t.timer);
+    if (!t.assistant.trim()) return;
+    const itemIds = t.stream.itemIds ?? [];
+    for (const itemId of itemIds) sentItems.set(itemId, t.id);
+    send({
+      id: t.id,
+      userText: t.userText,
+      userTs: t.userTs,
+      assistantText: t.assistant,
+      assistantTs: now().toISOString(),
+      threadId: t.threadId,
+      seq: t.seq,
+      metrics: measure(t),
+      attachments: t.attachments,
+      itemIds,
+    });
+  };
+
+  const open = (): OpenTurn => {
+    const seq = threadId === null ? 1 : (seqs.get(threadId) ?? 0) + 1;
+    if (threadId !== null) seqs.set(threadId, seq);
+    const t: OpenTurn = {
+      id: createId(),
+      threadId,
+      seq,
+      userText: pendingUser?.text ?? "",
+      userTs: pendingUser?.at.toISOString() ?? "",
+      sentAt: pendingUser?.at.getTime() ?? null,
+      startedAt: now().getTime(),
+      assistant: "",
+      stream: { firstTokenAt: null },
+      ended: false,
+      endedAt: null,
+      failed: false,
+      closed: false,
+      timer: null,
+      attachments: pendingAttachments,
+    };
+    pendingUser = null;
+    pendingAttachments = [];
+    turn = t;
+    return t;
+  };
+
+  return {
+    responseStart() {
+      if (turn) close(turn);
+      open();
+    },
+
+    responseEnd() {
+      const t = turn;
+      if (!t || t.ended) return;
+      t.ended = true;
+      t.endedAt = now().getTime();
+      if (t.assistant.trim()) {
+        close(t);
+      } else {
+        t.timer = setTimer(() => close(t), graceMs);
+      }
+    },
+
+    responseError() {
+      if (turn) turn.failed = true;
+    },
+
+    threadChange(next) {
+      // A new thread gets its id once the first response is under way; that
+      // turn belongs to it rather than ending with the change.
+      if (turn && !turn.ended && threadId === null && next !== null) {
+        threadId = next;
+        turn.threadId = next;
+        seqs.set(next, turn.seq);
+        return;
+      }
+      if (turn) close(turn);
+      pendingUser = null;
+      pendingAttachments = [];
+      threadId = next;
+    },
+
+    userText(text) {
+      const trimmed = text.trim();
+      if (!trimmed) return;
+      pendingUser = { text: trimmed, at: now() };
+    },
+
+    assistantText(text, detail) {
+      const t = turn;
+      if (!t || !text.trim()) return;
+      t.assistant = text;
+      if (detail) {
+        Object.assign(t.stream, detail);
+      } else if (t.stream.firstTokenAt === null) {
+        t.stream.firstTokenAt = now().getTime();
+      }
+      if (t.ended) close(t);
+    },
+
+    rating(rating) {
+      const key = JSON.stringify([rating.rating, rating.threadId, rating.itemIds]);
+      if (key === lastRating) return;
+      lastRating = key;
+      const turnId = rating.itemIds.map((id) => sentItems.get(id)).find(Boolean) ?? null;
+      sendRating?.({ ...rating, turnId });
+    },
+
+    attachment(attachment) {
+      // Uploads can be retried; one file is one attachment.
+      if (pendingAttachments.some((a) => a.sha256 === attachment.sha256)) return;
+      pendingAttachments = [...pendingAttachments, attachment];
+    },
+
+    dispose() {
+      if (turn) close(turn);
+      pendingUser = null;
+      pendingAttachments = [];
+    },
+  };
+}
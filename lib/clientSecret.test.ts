@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createClientSecretSource,
+  expiresAtFrom,
+  SessionRequestError,
+  type ClientSecret,
+} from "@/lib/clientSecret";
+
+const MINUTE = 60_000;
+
+/** Answers each fetch with the next reply; an Error reply is thrown. */
+function secretServer(...replies: (ClientSecret | Error)[]) {
+  return vi.fn(async () => {
+    const reply = replies.shift();
+    if (!reply) throw new Error("no more replies");
+    if (reply instanceof Error) throw reply;
+    return reply;
+  });
+}
+
+const secret = (name: string, data: Record<string, unknown>): ClientSecret => ({
+  secret: name,
+  expiresAt: expiresAtFrom(data),
+});
+
+describe("expiresAtFrom", () => {
+  const now = Date.parse("2025-10-17T09:00:00.000Z");
+
+  it("reads expires_at in unix seconds and expires_after in seconds from now", () => {
+    expect(expiresAtFrom({ expires_at: 1760700000 }, now)).toBe(1760700000_000);
+    expect(expiresAtFrom({ expires_after: 600 }, now)).toBe(now + 600_000);
+    expect(expiresAtFrom({ expires_after: { seconds: 600 } }, now)).toBe(now + 600_000);
+    expect(expiresAtFrom({ expires_after: { anchor: "created_at" } }, now)).toBeNull();
+    expect(expiresAtFrom({}, now)).toBeNull();
+  });
+});
+
+describe("createClientSecretSource", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: Date.parse("2025-10-17T09:00:00.000Z") });
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it.each([
+    ["expires_at", () => ({ expires_at: Date.now() / 1000 + 600 })],
+    ["expires_after", () => ({ expires_after: { seconds: 600 } })],
+  ])("fetches a replacement a minute before %s", async (_, expiry) => {
+    const fetchSecret = secretServer(secret("ek_1", expiry()), secret("ek_2", expiry()));
+    const source = createClientSecretSource({ fetchSecret });
+
+    expect(await source.get(null)).toBe("ek_1");
+    await vi.advanceTimersByTimeAsync(9 * MINUTE - 1);
+    expect(fetchSecret).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchSecret).toHaveBeenCalledTimes(2);
+    // ChatKit asking to replace ek_1 gets the secret fetched ahead of time.
+    expect(await source.get("ek_1")).toBe("ek_2");
+    expect(fetchSecret).toHaveBeenCalledTimes(2);
+    source.dispose();
+  });
+
+  it("refreshes half way through a short lifetime, but not before retryMs", async () => {
+    const fetchSecret = secretServer(
+      secret("ek_1", { expires_after: 20 }),
+      secret("ek_2", { expires_after: 600 })
+    );
+    const source = createClientSecretSource({ fetchSecret, retryMs: 15_000 });
+
+    await source.get(null);
+    await vi.advanceTimersByTimeAsync(14_999);
+    expect(fetchSecret).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchSecret).toHaveBeenCalledTimes(2);
+    source.dispose();
+  });
+
+  it("shares one fetch between concurrent callers", async () => {
+    const fetchSecret = secretServer(secret("ek_1", { expires_after: 600 }));
+    const source = createClientSecretSource({ fetchSecret });
+
+    const [a, b] = await Promise.all([source.get(null), source.get(null)]);
+
+    expect([a, b]).toEqual(["ek_1", "ek_1"]);
+    expect(fetchSecret).toHaveBeenCalledTimes(1);
+    source.dispose();
+  });
+
+  it("retries a failed refresh until the secret expires, then reports it", async () => {
+    const unavailable = new SessionRequestError("ChatKit is unavailable", "upstream_unavailable");
+    const fetchSecret = secretServer(
+      secret("ek_1", { expires_after: 120 }),
+      unavailable,
+      unavailable,
+      unavailable,
+      unavailable
+    );
+    const onRefreshError = vi.fn();
+    const source = createClientSecretSource({ fetchSecret, onRefreshError, retryMs: 15_000 });
+
+    await source.get(null);
+    // Refreshes at 60 s, then retries at 75, 90 and 105 s.
+    await vi.advanceTimersByTimeAsync(104_999);
+    expect(fetchSecret).toHaveBeenCalledTimes(4);
+    expect(onRefreshError).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchSecret).toHaveBeenCalledTimes(5);
+    expect(onRefreshError).toHaveBeenCalledTimes(1);
+    const [error] = onRefreshError.mock.calls[0];
+    expect(error).toBe(unavailable);
+    expect(error.transient).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(10 * MINUTE);
+    expect(fetchSecret).toHaveBeenCalledTimes(5);
+    source.dispose();
+  });
+
+  it("stops refreshing once disposed", async () => {
+    const fetchSecret = secretServer(secret("ek_1", { expires_after: 600 }));
+    const source = createClientSecretSource({ fetchSecret });
+
+    await source.get(null);
+    source.dispose();
+    await vi.advanceTimersByTimeAsync(20 * MINUTE);
+    expect(fetchSecret).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Client secret bookkeeping for ChatKit's `getClientSecret`.
+ *
+ * Secrets expire (`expires_at` / `expires_after` from /api/create-session).
+ * A replacement is fetched `refreshMarginMs` before expiry (or half way
+ * through a shorter lifetime, but never sooner than `retryMs`), so when
+ * ChatKit asks for a new secret one is usually ready. A failed background
+ * refresh is retried every `retryMs` until the current secret expires and is
+ * then reported through `onRefreshError`. Concurrent requests share one fetch.
+ *
+ * Kept free of React so the timing can be driven by fake timers.
+ */
+
+export type ClientSecret = {
+  secret: string;
+  /** Epoch ms after which the secret is no longer accepted; null if unknown. */
+  expiresAt: number | null;
+};
+
+/** A failed /api/create-session call, with the server's error `code` if any. */
+export class SessionRequestError extends Error {
+  constructor(
+    message: string,
+    readonly code: string | null
+  ) {
+    super(message);
+    this.name = "SessionRequestError";
+  }
+
+  /** Failures that trying again later can fix. */
+  get transient(): boolean {
+    return this.code === "upstream_unavailable" || this.code === "rate_limited";
+  }
+}
+
+export type ClientSecretSourceOptions = {
+  fetchSecret: () => Promise<ClientSecret>;
+  onRefreshError?: (error: unknown) => void;
+  now?: () => number;
+  refreshMarginMs?: number;
+  retryMs?: number;
+  setTimer?: (fn: () => void, ms: number) => unknown;
+  clearTimer?: (handle: unknown) => void;
+};
+
+export type ClientSecretSource = {
+  /**
+   * A secret other than `current` (the one ChatKit holds, which it is asking
+   * to replace), or the cached one on the first call.
+   */
+  get(current: string | null): Promise<string>;
+  dispose(): void;
+};
+
+const DEFAULT_REFRESH_MARGIN_MS = 60_000;
+const DEFAULT_RETRY_MS = 15_000;
+
+export function createClientSecretSource({
+  fetchSecret,
+  onRefreshError,
+  now = () => Date.now(),
+  refreshMarginMs = DEFAULT_REFRESH_MARGIN_MS,
+  retryMs = DEFAULT_RETRY_MS,
+  setTimer = (fn, ms) => setTimeout(fn, ms),
+  clearTimer = (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+}: ClientSecretSourceOptions): ClientSecretSource {
+  let cached: (ClientSecret & { refreshAt: number | null }) | null = null;
+  let inflight: Promise<ClientSecret> | null = null;
+  let timer: unknown = null;
+  let disposed = false;
+
+  const fresh = (s: { refreshAt: number | null }) => s.refreshAt === null || s.refreshAt > now();
+
+  const schedule = (ms: number) => {
+    if (timer !== null) clearTimer(timer);
+    timer = disposed ? null : setTimer(background, Math.max(0, ms));
+  };
+
+  const load = (): Promise<ClientSecret> => {
+    inflight ??= fetchSecret()
+      .then((next) => {
+        const lifetime = next.expiresAt === null ? null : next.expiresAt - now();
+        // A clock-skewed or already expired secret must not refresh in a loop.
+        const refreshIn =
+          lifetime === null
+            ? null
+            : Math.max(retryMs, lifetime - Math.min(refreshMarginMs, lifetime / 2));
+        cached = { ...next, refreshAt: refreshIn === null ? null : now() + refreshIn };
+        if (refreshIn !== null) schedule(refreshIn);
+        return next;
+      })
+      .finally(() => {
+        inflight = null;
+      });
+    return inflight;
+  };
+
+  function background() {
+    timer = null;
+    const previous = cached;
+    load().catch((error) => {
+      if (disposed) return;
+      if (previous?.expiresAt != null && previous.expiresAt > now() + retryMs) {
+        schedule(retryMs);
+      } else {
+        onRefreshError?.(error);
+      }
+    });
+  }
+
+  return {
+    async get(current) {
+      if (cached && cached.secret !== current && fresh(cached)) {
+        return cached.secret;
+      }
+      return (await load()).secret;
+    },
+
+    dispose() {
+      disposed = true;
+      if (timer !== null) clearTimer(timer);
+      timer = null;
+    },
+  };
+}
+
+/**
+ * Expiry of a create-session response: `expires_at` in unix seconds, or
+ * `expires_after` as seconds from now (a number or `{ seconds }`).
+ */
+export function expiresAtFrom(data: Record<string, unknown>, now = Date.now()): number | null {
+  if (typeof data.expires_at === "number" && data.expires_at > 0) {
+    return data.expires_at * 1000;
+  }
+  const after = data.expires_after;
+  const seconds =
+    typeof after === "number"
+      ? after
+      : typeof after === "object" && after !== null
+        ? (after as { seconds?: unknown }).seconds
+        : undefined;
+  return typeof seconds === "number" && seconds > 0 ? now + seconds * 1000 : null;
+}
@@ -0,0 +1,152 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { compactDay, pendingCompactionDays, readManifest } from "@/lib/compaction";
+import { dailyKey, encodeNdjson, readNdjson } from "@/lib/logFiles";
+import type { LogStore } from "@/lib/logStore";
+import { createFilesystemStore } from "@/lib/logStore/filesystem";
+
+const DAY = "2025-10-15";
+const OUT = dailyKey(DAY, "gzip");
+
+let dir: string;
+let store: LogStore;
+
+async function logEvents(ids: string[]) {
+  for (const id of ids) {
+    await store.put(`logs/${DAY}/09-00-00-000-${id}.turn.json`, JSON.stringify({ id }));
+  }
+}
+
+async function originals(): Promise<string[]> {
+  return (await store.list(`logs/${DAY}/`)).objects.map((o) => o.key.split("-").pop()!);
+}
+
+async function compactedIds(): Promise<string[]> {
+  const text = (await readNdjson(store, OUT)) ?? "";
+  return text.split("\n").filter(Boolean).map((line) => JSON.parse(line).id);
+}
+
+describe("compactDay", () => {
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "compaction-"));
+    store = createFilesystemStore(dir);
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("compacts every event, writes a manifest and deletes the originals", async () => {
+    await logEvents(["e1", "e2", "e3"]);
+    const result = await compactDay(store, { day: DAY, compression: "gzip" });
+
+    expect(result).toMatchObject({ ok: true, done: true, verified: true, deleted: 3 });
+    expect(await compactedIds()).toEqual(["e1", "e2", "e3"]);
+    expect((await readManifest(store, DAY))?.sources).toHaveLength(3);
+    expect(await originals()).toEqual([]);
+  });
+
+  it("keeps the originals when the written NDJSON does not verify", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    await logEvents(["e1", "e2", "e3"]);
+    const corrupting: LogStore = {
+      ...store,
+      put: (key, body, options) =>
+        store.put(key, key === OUT ? encodeNdjson('{"id":"e1"}\n', "gzip") : body, options),
+    };
+
+    const failed = await compactDay(corrupting, { day: DAY, compression: "gzip" });
+    expect(failed).toMatchObject({ ok: false, written: true, verified: false, deleted: 0 });
+    expect(await readManifest(store, DAY)).toBeNull();
+    expect(await originals()).toEqual(["e1.turn.json", "e2.turn.json", "e3.turn.json"]);
+
+    const retried = await compactDay(store, { day: DAY, compression: "gzip" });
+    expect(retried).toMatchObject({ ok: true, resumed: true, deleted: 3 });
+    expect(await compactedIds()).toEqual(["e1", "e2", "e3"]);
+  });
+
+  it("reports and keeps events it cannot read", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    await logEvents(["e1", "e2", "e3"]);
+    await store.put(`logs/${DAY}/09-00-00-000-bad.turn.json`, "{not json");
+    const unreadable = `logs/${DAY}/09-00-00-000-e2.turn.json`;
+    const flaky: LogStore = {
+      ...store,
+      get: (key) => (key === unreadable ? Promise.reject(new Error("EIO")) : store.get(key)),
+    };
+
+    const result = await compactDay(flaky, { day: DAY, compression: "gzip" });
+
+    expect(result).toMatchObject({ ok: true, done: true, deleted: 2 });
+    expect(result.failed).toEqual([
+      { key: `logs/${DAY}/09-00-00-000-bad.turn.json`, reason: "invalid_json" },
+      { key: unreadable, reason: "read_error" },
+    ]);
+    expect((await readManifest(store, DAY))?.failed).toEqual(result.failed);
+    expect(await compactedIds()).toEqual(["e1", "e3"]);
+    expect(await originals()).toEqual(["bad.turn.json", "e2.turn.json"]);
+  });
+
+  describe("originals left behind by a run that stopped while deleting", () => {
+    beforeEach(async () => {
+      await logEvents(["e1", "e2", "e3"]);
+      await compactDay(store, { day: DAY, compression: "gzip" });
+      // e2 survived the delete; e4 arrived after compaction.
+      await logEvents(["e2", "e4"]);
+    });
+
+    it("deletes them when merging instead of appending them again", async () => {
+      const result = await compactDay(store, { day: DAY, compression: "gzip", merge: true });
+
+      expect(result).toMatchObject({ ok: true, merged: true, deleted: 2 });
+      expect(await compactedIds()).toEqual(["e1", "e2", "e3", "e4"]);
+      expect((await readManifest(store, DAY))?.sources).toHaveLength(4);
+      expect(await originals()).toEqual([]);
+    });
+
+    it("deletes them on an already compacted day and keeps late events", async () => {
+      const result = await compactDay(store, { day: DAY, compression: "gzip" });
+
+      expect(result).toMatchObject({ ok: true, message: "Already compacted", deleted: 1 });
+      expect(await compactedIds()).toEqual(["e1", "e2", "e3"]);
+      expect(await originals()).toEqual(["e4.turn.json"]);
+    });
+
+    it("appends an original whose content changed since it was compacted", async () => {
+      await store.put(`logs/${DAY}/09-00-00-000-e2.turn.json`, JSON.stringify({ id: "e2b" }));
+      const result = await compactDay(store, { day: DAY, compression: "gzip", merge: true });
+
+      expect(result).toMatchObject({ ok: true, deleted: 2 });
+      expect(await compactedIds()).toEqual(["e1", "e2", "e3", "e2b", "e4"]);
+    });
+  });
+
+  it("resumes from its checkpoint one list page at a time", async () => {
+    await logEvents(["e1", "e2", "e3", "e4", "e5"]);
+    const paged: LogStore = {
+      ...store,
+      list: (prefix, options) => store.list(prefix, { ...options, limit: 2 }),
+    };
+
+    const calls = [];
+    for (let i = 0; i < 5; i++) {
+      const result = await compactDay(paged, { day: DAY, compression: "gzip", deadline: 0 });
+      calls.push(result);
+      if (result.done) break;
+      expect(await pendingCompactionDays(store)).toEqual([DAY]);
+      expect(await originals()).toHaveLength(5);
+    }
+
+    expect(calls.map((c) => [c.done, c.resumed, c.pages])).toEqual([
+      [false, false, 1],
+      [false, true, 1],
+      [true, true, 1],
+    ]);
+    expect(calls[2]).toMatchObject({ totalPages: 3, totalEvents: 5, deleted: 5 });
+    expect(await compactedIds()).toEqual(["e1", "e2", "e3", "e4", "e5"]);
+    expect(await originals()).toEqual([]);
+    expect(await pendingCompactionDays(store)).toEqual([]);
+  });
+});
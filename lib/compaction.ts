@@ -0,0 +1,633 @@
+import { acquireLease, type Lease, type LogStore } from "@/lib/logStore";
+import {
+  dailyKey,
+  daysInRange,
+  describe,
+  encodeNdjson,
+  findDailyFile,
+  isDay,
+  matches,
+  ndjsonContentType,
+  readNdjson,
+  resolveCompression,
+  sha256,
+  type LogCompression,
+} from "@/lib/logFiles";
+
+export { daysInRange, isDay };
+
+/**
+ * Daily compaction: merges every `logs/<day>/*.json` event into
+ * `logs/<day>.ndjson.gz` (or plain `logs/<day>.ndjson` with
+ * LOG_COMPRESSION=none), then deletes the originals.
+ *
+ * The day's listing is walked page by page. Each page is written to its own
+ * part file and recorded in a checkpoint, so a run that hits its time budget
+ * can stop between pages and the next call picks up from the saved cursor.
+ *
+ * Originals are only deleted once the NDJSON has been read back and matches
+ * the expected line count, size and checksum of the uncompressed NDJSON,
+ * and a manifest describing it
+ * has been written to `logs/<day>.manifest.json`. Events that cannot be read
+ * or parsed are left in place and reported.
+ *
+ * With `merge`, events that arrive after a day was compacted are appended to
+ * the existing NDJSON and its manifest instead of the day being skipped.
+ * Originals the manifest already lists (same key and checksum) are left over
+ * from a run that stopped while deleting; they are deleted, never appended
+ * again, with or without `merge`.
+ *
+ * Each day is guarded by an expiring lease in the log store, so a cron run
+ * and a manual call for the same day cannot both write and delete.
+ */
+
+const LIST_PAGE_SIZE = 1000;
+const READ_BATCH_SIZE = 40;
+// Comfortably longer than one call; a crashed run's lock expires after this.
+const LOCK_TTL_MS = 5 * 60 * 1000;
+
+export type CompactionOptions = {
+  day: string;
+  /** Discard a saved checkpoint and list the day again; implies `merge`. */
+  force?: boolean;
+  /** Append late events to an existing NDJSON instead of skipping the day. */
+  merge?: boolean;
+  /** Output format; defaults to LOG_COMPRESSION. */
+  compression?: LogCompression;
+  /** Epoch ms after which no new page is started. */
+  deadline?: number;
+};
+
+export type CompactionFailure = {
+  key: string;
+  reason: "missing" | "read_error" | "invalid_json";
+};
+
+export type CompactionResult = {
+  /** False when the written NDJSON failed verification. */
+  ok: boolean;
+  day: string;
+  outKey: string;
+  manifestKey: string;
+  message?: string;
+  /** False when the run stopped early and saved a checkpoint. */
+  done: boolean;
+  /** True when another run holds the day's lock; nothing was done. */
+  inProgress: boolean;
+  resumed: boolean;
+  /** True when new events were appended to a previously compacted file. */
+  merged: boolean;
+  written: boolean;
+  verified: boolean;
+  deleted: number;
+  /** Pages and events handled in this call. */
+  pages: number;
+  events: number;
+  /** Pages and events handled across every call for this day. */
+  totalPages: number;
+  totalEvents: number;
+  /** Events that were kept in place because they could not be compacted. */
+  failed: CompactionFailure[];
+};
+
+export type ManifestSource = {
+  key: string;
+  bytes: number;
+  sha256: string;
+};
+
+export type CompactionManifest = {
+  day: string;
+  createdAt: string;
+  /** Line count, size and checksum describe the uncompressed NDJSON. */
+  output: {
+    key: string;
+    lines: number;
+    bytes: number;
+    sha256: string;
+    compression?: LogCompression;
+    storedBytes?: number;
+  };
+  sources: ManifestSource[];
+  failed: CompactionFailure[];
+  /** Lines removed after compaction by right-to-erasure requests. */
+  erasures?: { at: string; subject: string; lines: number }[];
+};
+
+type CompactionPart = {
+  key: string;
+  lines: number;
+  bytes: number;
+  sha256: string;
+  sources: ManifestSource[];
+};
+
+type CompactionCheckpoint = {
+  day: string;
+  cursor: string | null;
+  /** True once the last listing page has been written to a part. */
+  listed: boolean;
+  merge: boolean;
+  pages: number;
+  events: number;
+  parts: CompactionPart[];
+  failed: CompactionFailure[];
+  /** Listed originals the existing manifest already lists; deleted at the end. */
+  leftovers?: string[];
+  startedAt: string;
+  updatedAt: string;
+};
+
+export const manifestKey = (day: string) => `logs/${day}.manifest.json`;
+const eventPrefix = (day: string) => `logs/${day}/`;
+const CHECKPOINT_PREFIX = "logs/_compaction/";
+const checkpointKey = (day: string) => `${CHECKPOINT_PREFIX}${day}.json`;
+const lockKey = (day: string) => `${CHECKPOINT_PREFIX}${day}.lock`;
+const partKey = (day: string, page: number) =>
+  `${CHECKPOINT_PREFIX}${day}/${page.toString().padStart(5, "0")}.ndjson`;
+
+/** The subset of `days` that still has per-event objects under `logs/<day>/`. */
+export async function uncompactedDays(
+  store: LogStore,
+  days: string[]
+): Promise<string[]> {
+  const found: string[] = [];
+  for (const day of days) {
+    const page = await store.list(eventPrefix(day), { limit: 1 });
+    if (page.objects.length > 0) found.push(day);
+  }
+  return found;
+}
+
+/** Days with a saved checkpoint, oldest first. */
+export async function pendingCompactionDays(store: LogStore): Promise<string[]> {
+  const days: string[] = [];
+  let cursor: string | null = null;
+  do {
+    const page = await store.list(CHECKPOINT_PREFIX, { cursor });
+    for (const o of page.objects) {
+      const m = /^logs\/_compaction\/(\d{4}-\d{2}-\d{2})\.json$/.exec(o.key);
+      if (m) days.push(m[1]);
+    }
+    cursor = page.cursor;
+  } while (cursor);
+  return days.sort();
+}
+
+/**
+ * Runs `fn` while holding the day's compaction lock. Returns null without
+ * running it when another run holds the lock. Anything that rewrites a
+ * day's compacted output should go through this.
+ */
+export async function withDayLock<T>(
+  store: LogStore,
+  day: string,
+  fn: (lease: Lease) => Promise<T>
+): Promise<T | null> {
+  const lease = await acquireLease(store, lockKey(day), LOCK_TTL_MS);
+  if (!lease) {
+    return null;
+  }
+  try {
+    return await fn(lease);
+  } finally {
+    await lease.release();
+  }
+}
+
+/**
+ * Drops a day's unfinished checkpoint and its parts. Originals are untouched,
+ * so the next compaction simply starts the day over.
+ */
+export async function discardCheckpoint(store: LogStore, day: string): Promise<void> {
+  const checkpoint = await readCheckpoint(store, day);
+  if (!checkpoint) {
+    return;
+  }
+  await store.delete(checkpoint.parts.map((p) => p.key));
+  await store.delete(checkpointKey(day));
+}
+
+export async function compactDay(
+  store: LogStore,
+  options: CompactionOptions
+): Promise<CompactionResult> {
+  const { day } = options;
+  const result = await withDayLock(store, day, (lease) =>
+    compactDayLocked(store, options, lease)
+  );
+  if (!result) {
+    return {
+      ok: true,
+      day,
+      outKey: dailyKey(day, options.compression ?? resolveCompression()),
+      manifestKey: manifestKey(day),
+      message: "Compaction already in progress",
+      done: false,
+      inProgress: true,
+      resumed: false,
+      merged: false,
+      written: false,
+      verified: false,
+      deleted: 0,
+      pages: 0,
+      events: 0,
+      totalPages: 0,
+      totalEvents: 0,
+      failed: [],
+    };
+  }
+  return result;
+}
+
+async function compactDayLocked(
+  store: LogStore,
+  {
+    day,
+    force = false,
+    merge = false,
+    compression = resolveCompression(),
+    deadline = Infinity,
+  }: CompactionOptions,
+  lease: Lease
+): Promise<CompactionResult> {
+  const outKey = dailyKey(day, compression);
+  const base = { day, outKey, manifestKey: manifestKey(day), inProgress: false };
+
+  // Forcing starts the listing over; compacted lines are kept either way.
+  if (force) {
+    await discardCheckpoint(store, day);
+  }
+  const saved = force ? null : await readCheckpoint(store, day);
+  const existingKey = await findDailyFile(store, day);
+  const previousManifest = existingKey ? await readManifest(store, day) : null;
+  const alreadyCompacted = new Set(previousManifest?.sources.map(sourceId));
+
+  // Skip if NDJSON already exists and not forcing, merging or resuming
+  if (!saved && !force && !merge && existingKey) {
+    const leftovers = await listLeftovers(store, day, alreadyCompacted);
+    const deleted = (await deleteIfHeld(store, lease, leftovers)) ? leftovers.length : 0;
+    return {
+      ...base,
+      ok: true,
+      message: "Already compacted",
+      done: true,
+      resumed: false,
+      merged: false,
+      written: false,
+      verified: false,
+      deleted,
+      pages: 0,
+      events: 0,
+      totalPages: 0,
+      totalEvents: 0,
+      failed: [],
+    };
+  }
+
+  const now = new Date().toISOString();
+  const checkpoint: CompactionCheckpoint = saved ?? {
+    day,
+    cursor: null,
+    listed: false,
+    merge: merge || force,
+    pages: 0,
+    events: 0,
+    parts: [],
+    failed: [],
+    startedAt: now,
+    updatedAt: now,
+  };
+
+  let pages = 0;
+  let events = 0;
+
+  // Always handle at least one page so every call makes progress
+  while (!checkpoint.listed && (pages === 0 || Date.now() < deadline)) {
+    const page = await store.list(eventPrefix(day), {
+      cursor: checkpoint.cursor,
+      limit: LIST_PAGE_SIZE,
+    });
+    const files = page.objects.filter((o) => o.key.endsWith(".json"));
+
+    const read = withoutLeftovers(
+      await readEvents(store, files.map((f) => f.key)),
+      alreadyCompacted
+    );
+    if (read.sources.length > 0) {
+      const key = partKey(day, checkpoint.pages + 1);
+      const body = read.lines.join("");
+      await store.put(key, body, { contentType: "application/x-ndjson" });
+      checkpoint.parts.push({
+        key,
+        ...describe(body),
+        sources: read.sources,
+      });
+    }
+    checkpoint.failed.push(...read.failed);
+    checkpoint.leftovers = [...(checkpoint.leftovers ?? []), ...read.leftovers];
+
+    pages += 1;
+    events += files.length;
+    checkpoint.pages += 1;
+    checkpoint.events += files.length;
+    checkpoint.cursor = page.cursor;
+    checkpoint.listed = !page.cursor;
+    checkpoint.updatedAt = new Date().toISOString();
+    await writeCheckpoint(store, checkpoint);
+  }
+
+  const progress = {
+    resumed: Boolean(saved),
+    merged: false,
+    pages,
+    events,
+    totalPages: checkpoint.pages,
+    totalEvents: checkpoint.events,
+    failed: checkpoint.failed,
+  };
+
+  if (!checkpoint.listed) {
+    return {
+      ...base,
+      ...progress,
+      ok: true,
+      message: "Time budget reached; call again to resume",
+      done: false,
+      written: false,
+      verified: false,
+      deleted: 0,
+    };
+  }
+
+  const leftovers = checkpoint.leftovers ?? [];
+  if (checkpoint.parts.length === 0) {
+    const deleted = (await deleteIfHeld(store, lease, leftovers)) ? leftovers.length : 0;
+    await store.delete(checkpointKey(day));
+    return {
+      ...base,
+      ...progress,
+      ok: true,
+      message: checkpoint.failed.length > 0 ? "No readable event files" : "No event files",
+      done: true,
+      written: false,
+      verified: false,
+      deleted,
+    };
+  }
+
+  // Start from the existing NDJSON when merging late events into it
+  const chunks: string[] = [];
+  let priorSources: ManifestSource[] = [];
+  let priorErasures: CompactionManifest["erasures"];
+  const previous =
+    checkpoint.merge && existingKey ? await readNdjson(store, existingKey) : null;
+  if (previous !== null) {
+    if (previousManifest && !matches(describe(previous), previousManifest.output)) {
+      // Parts are rebuilt from the originals on the next run.
+      await discardCheckpoint(store, day);
+      return {
+        ...base,
+        ...progress,
+        ok: false,
+        message: "Existing NDJSON does not match its manifest; not merging",
+        done: true,
+        written: false,
+        verified: false,
+        deleted: 0,
+      };
+    }
+    chunks.push(previous);
+    priorSources = previousManifest?.sources ?? [];
+    priorErasures = previousManifest?.erasures;
+    progress.merged = true;
+  }
+
+  // Stitch parts into the daily NDJSON, checking each part on the way
+  for (const part of checkpoint.parts) {
+    const text = await store.getText(part.key);
+    if (text === null || !matches(describe(text), part)) {
+      // The checkpoint no longer describes what is stored; start over.
+      await store.delete(checkpointKey(day));
+      return {
+        ...base,
+        ...progress,
+        ok: false,
+        message: `Compaction part ${part.key} is missing or corrupt; originals kept, rerun to rebuild`,
+        done: true,
+        written: false,
+        verified: false,
+        deleted: 0,
+      };
+    }
+    chunks.push(text);
+  }
+  const body = chunks.join("");
+  const expected = describe(body);
+  const encoded = encodeNdjson(body, compression);
+  await store.put(outKey, encoded, { contentType: ndjsonContentType(compression) });
+
+  // Read the output back before trusting it
+  const written = await readNdjson(store, outKey).catch(() => null);
+  if (written === null || !matches(describe(written), expected)) {
+    console.error("[compaction] verification failed", { day, outKey });
+    return {
+      ...base,
+      ...progress,
+      ok: false,
+      message: "Verification failed; originals kept, call again to retry",
+      done: false,
+      written: true,
+      verified: false,
+      deleted: 0,
+    };
+  }
+
+  const compacted = checkpoint.parts.flatMap((p) => p.sources);
+  const sources = [...priorSources, ...compacted];
+  const manifest: CompactionManifest = {
+    day,
+    createdAt: new Date().toISOString(),
+    output: { key: outKey, ...expected, compression, storedBytes: encoded.byteLength },
+    sources,
+    failed: checkpoint.failed,
+    erasures: priorErasures,
+  };
+  await store.put(manifestKey(day), JSON.stringify(manifest, null, 2), {
+    contentType: "application/json",
+  });
+
+  // A run that outlived its lease may be racing a newer one; let that run delete.
+  if (!(await lease.isHeld())) {
+    return {
+      ...base,
+      ...progress,
+      ok: false,
+      message: "Lost compaction lock before deleting originals; originals kept",
+      done: true,
+      written: true,
+      verified: true,
+      deleted: 0,
+    };
+  }
+
+  // Delete compacted originals only, then the scratch files
+  const sourceKeys = [...compacted.map((s) => s.key), ...leftovers];
+  await deleteKeys(store, sourceKeys);
+  await store.delete(checkpoint.parts.map((p) => p.key));
+  await store.delete(checkpointKey(day));
+  if (existingKey && existingKey !== outKey) {
+    // Superseded by the file in the current format
+    await store.delete(existingKey);
+  }
+
+  return {
+    ...base,
+    ...progress,
+    ok: true,
+    done: true,
+    written: true,
+    verified: true,
+    deleted: sourceKeys.length,
+  };
+}
+
+const sourceId = (source: ManifestSource) => `${source.key} ${source.sha256}`;
+
+/** Splits off events whose key and checksum `compacted` already lists. */
+function withoutLeftovers(
+  read: ReadEventsResult,
+  compacted: Set<string>
+): ReadEventsResult & { leftovers: string[] } {
+  const result = { lines: [] as string[], sources: [] as ManifestSource[], failed: read.failed };
+  const leftovers: string[] = [];
+  read.sources.forEach((source, i) => {
+    if (compacted.has(sourceId(source))) {
+      leftovers.push(source.key);
+    } else {
+      result.lines.push(read.lines[i]);
+      result.sources.push(source);
+    }
+  });
+  return { ...result, leftovers };
+}
+
+/** Originals of an already compacted day that its manifest lists. */
+async function listLeftovers(
+  store: LogStore,
+  day: string,
+  compacted: Set<string>
+): Promise<string[]> {
+  if (compacted.size === 0) {
+    return [];
+  }
+  const leftovers: string[] = [];
+  let cursor: string | null = null;
+  do {
+    const page = await store.list(eventPrefix(day), { cursor, limit: LIST_PAGE_SIZE });
+    const keys = page.objects.map((o) => o.key).filter((key) => key.endsWith(".json"));
+    leftovers.push(...withoutLeftovers(await readEvents(store, keys), compacted).leftovers);
+    cursor = page.cursor;
+  } while (cursor);
+  return leftovers;
+}
+
+/** Deletes `keys` unless the lease was lost; a newer run then cleans up. */
+async function deleteIfHeld(store: LogStore, lease: Lease, keys: string[]): Promise<boolean> {
+  if (keys.length === 0 || !(await lease.isHeld())) {
+    return false;
+  }
+  await deleteKeys(store, keys);
+  return true;
+}
+
+async function deleteKeys(store: LogStore, keys: string[]): Promise<void> {
+  for (let i = 0; i < keys.length; i += LIST_PAGE_SIZE) {
+    await store.delete(keys.slice(i, i + LIST_PAGE_SIZE));
+  }
+}
+
+type ReadEventsResult = {
+  lines: string[];
+  sources: ManifestSource[];
+  failed: CompactionFailure[];
+};
+
+async function readEvents(store: LogStore, keys: string[]): Promise<ReadEventsResult> {
+  const result: ReadEventsResult = { lines: [], sources: [], failed: [] };
+  for (let i = 0; i < keys.length; i += READ_BATCH_SIZE) {
+    const batch = keys.slice(i, i + READ_BATCH_SIZE);
+    const reads = await Promise.all(
+      batch.map(async (key) => {
+        try {
+          return { key, bytes: await store.get(key) };
+        } catch (error) {
+          console.warn("[compaction] failed to read event", { key, error });
+          return { key, bytes: undefined };
+        }
+      })
+    );
+
+    for (const { key, bytes } of reads) {
+      if (bytes === undefined) {
+        result.failed.push({ key, reason: "read_error" });
+        continue;
+      }
+      if (bytes === null) {
+        result.failed.push({ key, reason: "missing" });
+        continue;
+      }
+      let line: string;
+      try {
+        line = JSON.stringify(JSON.parse(new TextDecoder().decode(bytes))) + "\n";
+      } catch {
+        result.failed.push({ key, reason: "invalid_json" });
+        continue;
+      }
+      result.lines.push(line);
+      result.sources.push({ key, bytes: bytes.byteLength, sha256: sha256(bytes) });
+    }
+  }
+  return result;
+}
+
+async function readCheckpoint(
+  store: LogStore,
+  day: string
+): Promise<CompactionCheckpoint | null> {
+  const raw = await store.getText(checkpointKey(day));
+  if (!raw) {
+    return null;
+  }
+  try {
+    return JSON.parse(raw) as CompactionCheckpoint;
+  } catch {
+    console.warn("[compaction] ignoring unreadable checkpoint", { day });
+    return null;
+  }
+}
+
+export async function readManifest(
+  store: LogStore,
+  day: string
+): Promise<CompactionManifest | null> {
+  const raw = await store.getText(manifestKey(day));
+  if (!raw) {
+    return null;
+  }
+  try {
+    return JSON.parse(raw) as CompactionManifest;
+  } catch {
+    console.warn("[compaction] ignoring unreadable manifest", { day });
+    return null;
+  }
+}
+
+async function writeCheckpoint(
+  store: LogStore,
+  checkpoint: CompactionCheckpoint
+): Promise<void> {
+  await store.put(checkpointKey(checkpoint.day), JSON.stringify(checkpoint), {
+    contentType: "application/json",
+  });
+}
@@ -3,6 +3,10 @@ import { ColorScheme, StartScreenPrompt, ThemeOption } from "@openai/chatkit";
 export const WORKFLOW_ID =
   process.env.NEXT_PUBLIC_CHATKIT_WORKFLOW_ID?.trim() ?? "";
 
+/** Name of the workflow to start, from CHATKIT_WORKFLOWS; "" for the server default. */
+export const WORKFLOW_NAME =
+  process.env.NEXT_PUBLIC_CHATKIT_WORKFLOW?.trim() ?? "";
+
 export const CREATE_SESSION_ENDPOINT = "/api/create-session";
 
 export const STARTER_PROMPTS: StartScreenPrompt[] = [
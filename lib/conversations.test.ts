@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { groupConversations } from "@/lib/conversations";
+
+const turn = (fields: Record<string, unknown>) =>
+  JSON.stringify({ type: "turn", thread_id: "thr_1", session_id: "s1", ...fields });
+
+describe("groupConversations", () => {
+  it("orders a reopened thread by time although seq restarted", () => {
+    const [conversation] = groupConversations([
+      turn({ id: "c", seq: 1, user_ts: "2025-10-17T11:00:00.000Z" }),
+      turn({ id: "a", seq: 1, user_ts: "2025-10-17T09:00:00.000Z" }),
+      turn({ id: "b", seq: 2, user_ts: "2025-10-17T09:05:00.000Z" }),
+    ]);
+    expect(conversation.records.map((r) => r.id)).toEqual(["a", "b", "c"]);
+    expect(conversation.startedAt).toBe("2025-10-17T09:00:00.000Z");
+  });
+
+  it("falls back to seq when times are equal", () => {
+    const [conversation] = groupConversations([
+      turn({ id: "b", seq: 2, ts: "2025-10-17T09:00:00.000Z" }),
+      turn({ id: "a", seq: 1, ts: "2025-10-17T09:00:00.000Z" }),
+    ]);
+    expect(conversation.records.map((r) => r.id)).toEqual(["a", "b"]);
+  });
+
+  it("groups by thread, then by session", () => {
+    const keys = groupConversations([
+      turn({ id: "a", ts: "2025-10-17T09:00:00.000Z" }),
+      turn({ id: "b", thread_id: "", ts: "2025-10-17T09:01:00.000Z" }),
+      "not json",
+    ]).map((c) => c.key);
+    expect(keys).toEqual(["thread:thr_1", "session:s1"]);
+  });
+});
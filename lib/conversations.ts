@@ -0,0 +1,102 @@
+/**
+ * Regroups compacted NDJSON records into conversations.
+ *
+ * Records are keyed by ChatKit thread (`thread_id` on turns since schema
+ * version 6, `meta.thread_id` or `threadId` before that). Records without a
+ * thread fall back to the session they came from, so older logs still group
+ * per browser. Within a conversation, records are ordered by time, and by
+ * `seq` where times are equal or missing. `seq` alone cannot order them: it
+ * starts again at 1 when a thread is reopened in a new tab.
+ */
+
+export type ConversationRecord = Record<string, unknown>;
+
+export type Conversation = {
+  /** `thread:<id>`, `session:<id>` or `unknown`. */
+  key: string;
+  threadId: string | null;
+  sessionId: string | null;
+  startedAt: string;
+  endedAt: string;
+  records: ConversationRecord[];
+};
+
+export function conversationKeyOf(record: ConversationRecord): string {
+  const thread = threadIdOf(record);
+  if (thread) return `thread:${thread}`;
+  const session = stringField(record, "session_id");
+  return session ? `session:${session}` : "unknown";
+}
+
+export function groupConversations(lines: Iterable<string>): Conversation[] {
+  const groups = new Map<string, ConversationRecord[]>();
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    let record: unknown;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    if (typeof record !== "object" || record === null || Array.isArray(record)) continue;
+    const key = conversationKeyOf(record as ConversationRecord);
+    const list = groups.get(key);
+    if (list) list.push(record as ConversationRecord);
+    else groups.set(key, [record as ConversationRecord]);
+  }
+
+  const conversations: Conversation[] = [];
+  for (const [key, records] of groups) {
+    records.sort(compareRecords);
+    const times = records.map(timeOf).filter(Boolean).sort();
+    conversations.push({
+      key,
+      threadId: threadIdOf(records[0]),
+      sessionId: records.map((r) => stringField(r, "session_id")).find(Boolean) ?? null,
+      startedAt: times[0] ?? "",
+      endedAt: times[times.length - 1] ?? "",
+      records,
+    });
+  }
+  return conversations.sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+}
+
+/* -------------------------------------------------------------------------- */
+
+function compareRecords(a: ConversationRecord, b: ConversationRecord): number {
+  const timeA = timeOf(a);
+  const timeB = timeOf(b);
+  if (timeA && timeB && timeA !== timeB) {
+    return timeA.localeCompare(timeB);
+  }
+  const seqA = typeof a.seq === "number" ? a.seq : 0;
+  const seqB = typeof b.seq === "number" ? b.seq : 0;
+  return seqA > 0 && seqB > 0 ? seqA - seqB : timeA.localeCompare(timeB);
+}
+
+function threadIdOf(record: ConversationRecord): string | null {
+  const meta = record.meta;
+  const fromMeta =
+    typeof meta === "object" && meta !== null
+      ? (meta as Record<string, unknown>).thread_id
+      : undefined;
+  return (
+    stringField(record, "thread_id") ||
+    stringField(record, "threadId") ||
+    (typeof fromMeta === "string" ? fromMeta : "") ||
+    null
+  );
+}
+
+function timeOf(record: ConversationRecord): string {
+  return (
+    stringField(record, "user_ts") ||
+    stringField(record, "assistant_ts") ||
+    stringField(record, "ts")
+  );
+}
+
+function stringField(record: ConversationRecord, field: string): string {
+  const value = record[field];
+  return typeof value === "string" ? value : "";
+}
@@ -0,0 +1,70 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { compactDay } from "@/lib/compaction";
+import { eraseSession } from "@/lib/erasure";
+import { ingestRecord } from "@/lib/ingest";
+import { readNdjson } from "@/lib/logFiles";
+import { buildLogRecord, validateLogInput } from "@/lib/logSchema";
+import { acquireLease, type LogStore } from "@/lib/logStore";
+import { createFilesystemStore } from "@/lib/logStore/filesystem";
+import { monthlyKey, rollupMonth } from "@/lib/rollup";
+
+let dir: string;
+let store: LogStore;
+
+async function logEvent(ts: string, sessionId: string) {
+  const input = validateLogInput({ type: "event", text: "হ্যালো" });
+  if (!input.ok) throw new Error("invalid test input");
+  const record = buildLogRecord(input.value, {
+    event_id: crypto.randomUUID(),
+    ts,
+    ua: "test",
+    redactions: [],
+    session_id: sessionId,
+  });
+  await ingestRecord(store, record);
+}
+
+async function sessionsIn(key: string): Promise<string[]> {
+  const text = (await readNdjson(store, key)) ?? "";
+  return text.split("\n").filter(Boolean).map((line) => JSON.parse(line).session_id);
+}
+
+describe("eraseSession", () => {
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), "erasure-"));
+    store = createFilesystemStore(dir);
+    await logEvent("2025-01-02T09:00:00.000Z", "s1");
+    await logEvent("2025-01-02T09:01:00.000Z", "s2");
+    await compactDay(store, { day: "2025-01-02" });
+    await rollupMonth(store, "2025-01");
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("removes the session from the compacted day and the monthly rollup", async () => {
+    const receipt = await eraseSession(store, "s1");
+
+    expect(receipt).toMatchObject({ complete: true, records: 1, rebuiltMonths: ["2025-01"] });
+    expect(await sessionsIn("logs/2025-01-02.ndjson.gz")).toEqual(["s2"]);
+    expect(await sessionsIn(monthlyKey("2025-01"))).toEqual(["s2"]);
+    expect((await store.list("logs/_subjects/")).objects).toHaveLength(1);
+  });
+
+  it("stays incomplete while the month's rollup is locked and finishes on retry", async () => {
+    const lease = await acquireLease(store, "logs/monthly/2025-01.lock", 60_000);
+
+    const busy = await eraseSession(store, "s1");
+    expect(busy).toMatchObject({ complete: false, busyMonths: ["2025-01"], rebuiltMonths: [] });
+    expect(await sessionsIn(monthlyKey("2025-01"))).toEqual(["s1", "s2"]);
+
+    await lease!.release();
+    const retried = await eraseSession(store, "s1");
+    expect(retried).toMatchObject({ complete: true, busyMonths: [], rebuiltMonths: ["2025-01"] });
+    expect(await sessionsIn(monthlyKey("2025-01"))).toEqual(["s2"]);
+  });
+});
@@ -0,0 +1,297 @@
+import type { LogStore } from "@/lib/logStore";
+import {
+  discardCheckpoint,
+  manifestKey,
+  readManifest,
+  withDayLock,
+} from "@/lib/compaction";
+import {
+  describe,
+  encodeNdjson,
+  findDailyFile,
+  matches,
+  ndjsonContentType,
+  readNdjson,
+  sha256,
+  type ContentSummary,
+} from "@/lib/logFiles";
+import { monthlyKey, rollupMonth } from "@/lib/rollup";
+import { attachmentThreadPrefix, isThreadId, listAttachmentKeys } from "@/lib/attachments";
+import { ARCHIVE_PREFIX, archiveKey, archiveMonthlyKey } from "@/lib/retention";
+
+/**
+ * Right-to-erasure for one session identity (the chatkit_session_id cookie).
+ *
+ * Ingestion records which days hold a subject's records under
+ * `logs/_subjects/<subject>/<day>`, where the subject is a SHA-256 of the
+ * session id. Erasure visits only those days: raw event objects with a
+ * matching `session_id` are deleted, matching lines are removed from the
+ * compacted file (whose manifest is updated), unfinished checkpoints are
+ * discarded so they are rebuilt from what remains, and existing monthly
+ * rollups for the affected months are rebuilt. A month whose rollup is
+ * locked by another run keeps its days in the index and leaves the receipt
+ * incomplete, so calling again rebuilds it. Archived attachments of the
+ * threads those records belonged to are deleted on each of the subject's days.
+ * Copies made by LOG_RETENTION_MODE=archive (`archive/logs/<day>.ndjson.gz`,
+ * `archive/logs/monthly/<month>.ndjson.gz` and `archive/attachments/`) are
+ * cleaned the same way; retention keeps the index entries of archived days.
+ *
+ * Records logged before `session_id` was recorded cannot be attributed and
+ * are not touched. Receipts are kept under `logs/_erasure/` and only carry
+ * the subject hash.
+ */
+
+export type ErasureDay = {
+  day: string;
+  rawDeleted: number;
+  compactedRemoved: number;
+  /** Lines removed from the day's retention archive. */
+  archivedRemoved: number;
+};
+
+export type ErasureReceipt = {
+  id: string;
+  subject: string;
+  requestedAt: string;
+  completedAt: string;
+  /**
+   * False when some days were locked by compaction or some monthly rollups
+   * could not be rebuilt; call again to finish.
+   */
+  complete: boolean;
+  days: ErasureDay[];
+  busyDays: string[];
+  rebuiltMonths: string[];
+  /** Monthly rollups still holding the subject's lines: locked or failed to verify. */
+  busyMonths: string[];
+  /** Archived monthly rollups the subject's lines were removed from. */
+  archivedMonths: string[];
+  records: number;
+  /** Archived attachment objects deleted. */
+  attachments: number;
+};
+
+const SUBJECT_PREFIX = "logs/_subjects/";
+const RECEIPT_PREFIX = "logs/_erasure/";
+
+export const subjectOf = (sessionId: string) => sha256(`session:${sessionId}`);
+export const subjectDayKey = (sessionId: string, day: string) =>
+  `${SUBJECT_PREFIX}${subjectOf(sessionId)}/${day}`;
+
+export async function eraseSession(
+  store: LogStore,
+  sessionId: string
+): Promise<ErasureReceipt> {
+  const subject = subjectOf(sessionId);
+  const requestedAt = new Date().toISOString();
+  const days = await subjectDays(store, subject);
+
+  const erased: ErasureDay[] = [];
+  const busyDays: string[] = [];
+  const threads = new Set<string>();
+  for (const day of days) {
+    const result = await withDayLock(store, day, () =>
+      eraseDay(store, day, sessionId, subject, threads)
+    );
+    if (!result) {
+      busyDays.push(day);
+      continue;
+    }
+    erased.push(result);
+  }
+
+  let attachments = 0;
+  for (const { day } of erased) {
+    for (const thread of threads) {
+      const prefix = attachmentThreadPrefix(day, thread);
+      const keys = [
+        ...(await listAttachmentKeys(store, prefix)),
+        ...(await listAttachmentKeys(store, `${ARCHIVE_PREFIX}${prefix}`)),
+      ];
+      if (keys.length > 0) {
+        await store.delete(keys);
+        attachments += keys.length;
+      }
+    }
+  }
+
+  // Months are rebuilt even when nothing was removed from their days this
+  // time, so a retry finishes a month that was busy before.
+  const rebuiltMonths: string[] = [];
+  const busyMonths: string[] = [];
+  const archivedMonths: string[] = [];
+  const months = Array.from(new Set(erased.map((d) => d.day.slice(0, 7))));
+  for (const month of months) {
+    if ((await store.get(monthlyKey(month))) !== null) {
+      const rollup = await rollupMonth(store, month);
+      if (rollup.inProgress || (rollup.written && !rollup.verified)) {
+        busyMonths.push(month);
+      } else {
+        rebuiltMonths.push(month);
+      }
+    }
+    const archived = await removeSubjectLines(
+      store,
+      archiveMonthlyKey(month),
+      sessionId,
+      threads
+    );
+    if (archived && archived.removed > 0) {
+      archivedMonths.push(month);
+    }
+  }
+
+  // Days of busy months stay indexed so the next call rebuilds those months.
+  for (const { day } of erased) {
+    if (!busyMonths.includes(day.slice(0, 7))) {
+      await store.delete(`${SUBJECT_PREFIX}${subject}/${day}`);
+    }
+  }
+
+  const receipt: ErasureReceipt = {
+    id: crypto.randomUUID(),
+    subject,
+    requestedAt,
+    completedAt: new Date().toISOString(),
+    complete: busyDays.length === 0 && busyMonths.length === 0,
+    days: erased,
+    busyDays,
+    rebuiltMonths,
+    busyMonths,
+    archivedMonths,
+    records: erased.reduce(
+      (n, d) => n + d.rawDeleted + d.compactedRemoved + d.archivedRemoved,
+      0
+    ),
+    attachments,
+  };
+  await store.put(`${RECEIPT_PREFIX}${receipt.id}.json`, JSON.stringify(receipt, null, 2), {
+    contentType: "application/json",
+  });
+  return receipt;
+}
+
+async function subjectDays(store: LogStore, subject: string): Promise<string[]> {
+  const prefix = `${SUBJECT_PREFIX}${subject}/`;
+  const days: string[] = [];
+  let cursor: string | null = null;
+  do {
+    const page = await store.list(prefix, { cursor });
+    days.push(...page.objects.map((o) => o.key.slice(prefix.length)));
+    cursor = page.cursor;
+  } while (cursor);
+  return days.sort();
+}
+
+async function eraseDay(
+  store: LogStore,
+  day: string,
+  sessionId: string,
+  subject: string,
+  threads: Set<string>
+): Promise<ErasureDay> {
+  // Parts may already hold the subject's lines; rebuild them from the originals.
+  await discardCheckpoint(store, day);
+
+  let rawDeleted = 0;
+  let cursor: string | null = null;
+  do {
+    const page = await store.list(`logs/${day}/`, { cursor });
+    for (const o of page.objects) {
+      if (!o.key.endsWith(".json")) continue;
+      const json = await store.getText(o.key);
+      if (belongsTo(json, sessionId)) {
+        noteThread(json, threads);
+        await store.delete(o.key);
+        rawDeleted += 1;
+      }
+    }
+    cursor = page.cursor;
+  } while (cursor);
+
+  let compactedRemoved = 0;
+  const key = await findDailyFile(store, day);
+  const rewrite = key ? await removeSubjectLines(store, key, sessionId, threads) : null;
+  if (rewrite && rewrite.removed > 0) {
+    compactedRemoved = rewrite.removed;
+    const manifest = await readManifest(store, day);
+    if (manifest) {
+      manifest.output = {
+        ...manifest.output,
+        ...rewrite.output,
+        storedBytes: rewrite.storedBytes,
+      };
+      manifest.erasures = [
+        ...(manifest.erasures ?? []),
+        { at: new Date().toISOString(), subject, lines: compactedRemoved },
+      ];
+      await store.put(manifestKey(day), JSON.stringify(manifest, null, 2), {
+        contentType: "application/json",
+      });
+    }
+  }
+
+  const archived = await removeSubjectLines(store, archiveKey(day), sessionId, threads);
+
+  return { day, rawDeleted, compactedRemoved, archivedRemoved: archived?.removed ?? 0 };
+}
+
+/**
+ * Rewrites the NDJSON file at `key` without the session's lines and checks
+ * the result. Null when the file does not exist.
+ */
+async function removeSubjectLines(
+  store: LogStore,
+  key: string,
+  sessionId: string,
+  threads: Set<string>
+): Promise<{ removed: number; output: ContentSummary; storedBytes: number } | null> {
+  const text = await readNdjson(store, key);
+  if (text === null) {
+    return null;
+  }
+  const kept = text.split("\n").filter((line) => {
+    if (!line) return false;
+    if (!belongsTo(line, sessionId)) return true;
+    noteThread(line, threads);
+    return false;
+  });
+  const removed = describe(text).lines - kept.length;
+  const body = kept.map((line) => line + "\n").join("");
+  const output = describe(body);
+  if (removed === 0) {
+    return { removed, output, storedBytes: 0 };
+  }
+
+  const compression = key.endsWith(".gz") ? "gzip" : "none";
+  const encoded = encodeNdjson(body, compression);
+  await store.put(key, encoded, { contentType: ndjsonContentType(compression) });
+
+  const written = await readNdjson(store, key).catch(() => null);
+  if (written === null || !matches(describe(written), output)) {
+    throw new Error(`Erasure rewrite of ${key} failed verification`);
+  }
+  return { removed, output, storedBytes: encoded.byteLength };
+}
+
+function noteThread(json: string | null, threads: Set<string>): void {
+  try {
+    const record = JSON.parse(json ?? "") as { thread_id?: unknown; threadId?: unknown };
+    const thread = record.thread_id || record.threadId;
+    if (typeof thread === "string" && isThreadId(thread)) threads.add(thread);
+  } catch {
+    // unparsable lines were not matched either
+  }
+}
+
+function belongsTo(json: string | null, sessionId: string): boolean {
+  if (!json) {
+    return false;
+  }
+  try {
+    const record = JSON.parse(json) as { session_id?: unknown };
+    return record.session_id === sessionId;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,141 @@
+import { LogStoreConflictError, type LogStore } from "@/lib/logStore";
+import { subjectOf } from "@/lib/erasure";
+
+/**
+ * Facts the workflow saved through the `record_fact` client tool, kept per
+ * session identity (the chatkit_session_id cookie) so they outlive the page.
+ *
+ * Each fact is one object at `facts/<subject>/<fact id>.json`, where the
+ * subject is the same session hash that erasure uses. Writes are create-only,
+ * so a tool call that repeats a fact id keeps the first text. Facts are not
+ * conversation logs: retention leaves them alone, and erasure removes them.
+ *
+ * When CHATKIT_FACTS_VARIABLE names a workflow state variable, new ChatKit
+ * sessions receive the saved facts in it (see /api/create-session).
+ */
+
+export type SavedFact = {
+  id: string;
+  text: string;
+  created_at: string;
+};
+
+export const MAX_FACTS = 200;
+export const MAX_FACT_LENGTH = 1000;
+
+const FACTS_PREFIX = "facts/";
+const FACT_ID = /^[A-Za-z0-9_-]{1,64}$/;
+
+export const isFactId = (id: string) => FACT_ID.test(id);
+
+const factsPrefix = (sessionId: string) => `${FACTS_PREFIX}${subjectOf(sessionId)}/`;
+
+/** The session's facts, oldest first. */
+export async function listFacts(store: LogStore, sessionId: string): Promise<SavedFact[]> {
+  const facts: SavedFact[] = [];
+  for (const key of await factKeys(store, sessionId)) {
+    const fact = parseFact(await store.getText(key));
+    if (fact) facts.push(fact);
+  }
+  return facts.sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+/**
+ * Stores a fact unless one with the same id exists. Throws RangeError when
+ * the session already holds MAX_FACTS facts.
+ */
+export async function saveFact(
+  store: LogStore,
+  sessionId: string,
+  input: { id: string; text: string }
+): Promise<{ fact: SavedFact; duplicate: boolean }> {
+  const key = `${factsPrefix(sessionId)}${input.id}.json`;
+  const existing = parseFact(await store.getText(key));
+  if (existing) {
+    return { fact: existing, duplicate: true };
+  }
+  if ((await factKeys(store, sessionId)).length >= MAX_FACTS) {
+    throw new RangeError(`At most ${MAX_FACTS} facts can be saved`);
+  }
+
+  const fact: SavedFact = {
+    id: input.id,
+    text: input.text,
+    created_at: new Date().toISOString(),
+  };
+  try {
+    await store.put(key, JSON.stringify(fact), {
+      contentType: "application/json",
+      ifAbsent: true,
+    });
+  } catch (error) {
+    if (!(error instanceof LogStoreConflictError)) throw error;
+    const winner = parseFact(await store.getText(key));
+    if (winner) return { fact: winner, duplicate: true };
+    throw error;
+  }
+  return { fact, duplicate: false };
+}
+
+/** Deletes one fact; false when it did not exist. */
+export async function deleteFact(
+  store: LogStore,
+  sessionId: string,
+  id: string
+): Promise<boolean> {
+  const key = `${factsPrefix(sessionId)}${id}.json`;
+  if ((await store.get(key)) === null) {
+    return false;
+  }
+  await store.delete(key);
+  return true;
+}
+
+/** Deletes every fact of the session and returns how many there were. */
+export async function deleteAllFacts(store: LogStore, sessionId: string): Promise<number> {
+  const keys = await factKeys(store, sessionId);
+  if (keys.length > 0) {
+    await store.delete(keys);
+  }
+  return keys.length;
+}
+
+/**
+ * The facts as a bullet list for a workflow state variable, newest first
+ * and cut to `maxLength` characters so old facts drop out before new ones.
+ */
+export function formatFactsForWorkflow(facts: SavedFact[], maxLength = 4_000): string {
+  const lines: string[] = [];
+  let length = 0;
+  for (const fact of [...facts].reverse()) {
+    const line = `- ${fact.text}`;
+    if (length + line.length + 1 > maxLength) break;
+    lines.push(line);
+    length += line.length + 1;
+  }
+  return lines.join("\n");
+}
+
+/* -------------------------------------------------------------------------- */
+
+async function factKeys(store: LogStore, sessionId: string): Promise<string[]> {
+  const keys: string[] = [];
+  let cursor: string | null = null;
+  do {
+    const page = await store.list(factsPrefix(sessionId), { cursor });
+    keys.push(...page.objects.map((o) => o.key).filter((k) => k.endsWith(".json")));
+    cursor = page.cursor;
+  } while (cursor);
+  return keys;
+}
+
+function parseFact(text: string | null): SavedFact | null {
+  if (!text) return null;
+  try {
+    const value = JSON.parse(text) as Partial<SavedFact>;
+    if (typeof value.id !== "string" || typeof value.text !== "string") return null;
+    return { id: value.id, text: value.text, created_at: String(value.created_at ?? "") };
+  } catch {
+    return null;
+  }
+}
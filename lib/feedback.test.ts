@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { summariseFeedback } from "@/lib/feedback";
+
+const line = (record: Record<string, unknown>) => JSON.stringify(record);
+
+const TURNS = [
+  line({ type: "turn", id: "t1", user_text: "এক", assistant_text: "১", item_ids: ["msg_a"] }),
+  line({ type: "turn", id: "t2", user_text: "দুই", assistant_text: "২", item_ids: ["msg_b"] }),
+];
+
+describe("summariseFeedback", () => {
+  it("joins a rating through turn_id", () => {
+    const { items, linked } = summariseFeedback([
+      ...TURNS,
+      line({ type: "feedback", id: "f1", ts: "1", rating: "up", turn_id: "t2" }),
+    ]);
+    expect(linked).toBe(1);
+    expect(items[0]).toMatchObject({ turn_id: "t2", user_text: "দুই" });
+  });
+
+  it("falls back to the rated item ids", () => {
+    const { items } = summariseFeedback([
+      ...TURNS,
+      line({ type: "feedback", id: "f1", ts: "1", rating: "down", item_ids: ["msg_a"] }),
+    ]);
+    expect(items[0]).toMatchObject({ turn_id: "t1", assistant_text: "১" });
+  });
+
+  it("leaves ratings of unknown items unlinked", () => {
+    const { items, linked } = summariseFeedback([
+      ...TURNS,
+      line({ type: "feedback", id: "f1", ts: "1", rating: "up", item_ids: ["msg_x"] }),
+    ]);
+    expect(linked).toBe(0);
+    expect(items[0]).toMatchObject({ turn_id: "", user_text: null, assistant_text: null });
+  });
+
+  it("keeps the latest record per rating and its earlier comment", () => {
+    const { items, comments } = summariseFeedback([
+      line({ type: "feedback", id: "f1", ts: "1", rating: "up", comment: "ভালো" }),
+      line({ type: "feedback", id: "f1", ts: "2", rating: "down" }),
+    ]);
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ rating: "down", comment: "ভালো" });
+    expect(comments).toBe(1);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Answer ratings from the `feedback` records added in schema version 8.
+ * A rating and any later comment on it share an id; the latest record per id
+ * (by `ts`) is the one that counts. Ratings are joined to their turn's text
+ * through `turn_id` when that turn is in the same lines, or else through the
+ * rated `item_ids` on turns logged since schema version 10.
+ */
+
+export type FeedbackItem = {
+  id: string;
+  ts: string;
+  rating: "up" | "down";
+  comment: string;
+  turn_id: string;
+  thread_id: string;
+  user_text: string | null;
+  assistant_text: string | null;
+};
+
+export type FeedbackSummary = {
+  ratings: number;
+  up: number;
+  down: number;
+  comments: number;
+  /** Ratings whose turn was found. */
+  linked: number;
+  items: FeedbackItem[];
+};
+
+type Turn = { id: string; user_text: string; assistant_text: string };
+type Latest = Omit<FeedbackItem, "user_text" | "assistant_text"> & { item_ids: string[] };
+
+export function summariseFeedback(lines: Iterable<string>): FeedbackSummary {
+  const latest = new Map<string, Latest>();
+  const turns = new Map<string, Turn>();
+  const turnsByItem = new Map<string, Turn>();
+
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    let record: Record<string, unknown>;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    if (record?.type === "turn" && typeof record.id === "string") {
+      const turn = {
+        id: record.id,
+        user_text: String(record.user_text ?? ""),
+        assistant_text: String(record.assistant_text ?? ""),
+      };
+      turns.set(turn.id, turn);
+      for (const itemId of stringList(record.item_ids)) turnsByItem.set(itemId, turn);
+      continue;
+    }
+    if (record?.type !== "feedback" || typeof record.id !== "string") continue;
+    if (record.rating !== "up" && record.rating !== "down") continue;
+    const ts = String(record.ts ?? "");
+    const seen = latest.get(record.id);
+    if (seen && seen.ts > ts) continue;
+    latest.set(record.id, {
+      id: record.id,
+      ts,
+      rating: record.rating,
+      // An earlier comment survives a later record that has none.
+      comment: String(record.comment ?? "") || seen?.comment || "",
+      turn_id: String(record.turn_id ?? ""),
+      thread_id: String(record.thread_id ?? ""),
+      item_ids: stringList(record.item_ids),
+    });
+  }
+
+  const items = [...latest.values()]
+    .map(({ item_ids, ...item }) => {
+      const turn =
+        (item.turn_id ? turns.get(item.turn_id) : undefined) ??
+        item_ids.map((id) => turnsByItem.get(id)).find(Boolean);
+      return {
+        ...item,
+        turn_id: turn?.id ?? item.turn_id,
+        user_text: turn?.user_text ?? null,
+        assistant_text: turn?.assistant_text ?? null,
+      };
+    })
+    .sort((a, b) => a.ts.localeCompare(b.ts));
+
+  return {
+    ratings: items.length,
+    up: items.filter((i) => i.rating === "up").length,
+    down: items.filter((i) => i.rating === "down").length,
+    comments: items.filter((i) => i.comment).length,
+    linked: items.filter((i) => i.assistant_text !== null).length,
+    items,
+  };
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : [];
+}
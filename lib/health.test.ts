@@ -0,0 +1,195 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { runHealthChecks } from "@/lib/health";
+import type { LogStore } from "@/lib/logStore";
+import { createFilesystemStore } from "@/lib/logStore/filesystem";
+
+const NOW = new Date("2025-10-17T09:00:00.000Z");
+
+const ENV = {
+  OPENAI_API_KEY: "sk-test",
+  SESSION_SECRET: "test-secret",
+  CHATKIT_WORKFLOWS: "bangla-default=wf_test",
+  CHATKIT_API_BASE: "http://chatkit.test",
+  LOG_STORE: "fs",
+};
+
+let dir: string;
+let store: LogStore;
+
+async function compacted(day: string) {
+  await store.put(
+    `logs/${day}.manifest.json`,
+    JSON.stringify({ day, createdAt: `${day}T02:00:00.000Z` })
+  );
+}
+
+function upstreamAnswers(status: number, body: unknown = {}) {
+  const fetchMock = vi.fn(async () => new Response(JSON.stringify(body), { status }));
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+const check = (options: { upstream?: boolean; timeoutMs?: number } = {}, target = store) =>
+  runHealthChecks(() => target, { now: () => NOW, timeoutMs: 1_000, ...options });
+
+describe("runHealthChecks", () => {
+  beforeEach(async () => {
+    for (const [name, value] of Object.entries(ENV)) vi.stubEnv(name, value);
+    dir = mkdtempSync(join(tmpdir(), "health-"));
+    store = createFilesystemStore(dir);
+    await compacted("2025-10-16");
+  });
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("is ok when every dependency is", async () => {
+    const fetchMock = upstreamAnswers(200, { client_secret: "ek_1" });
+    const report = await check();
+
+    expect(report.status).toBe("ok");
+    expect(Object.values(report.checks).map((c) => c.status)).toEqual(["ok", "ok", "ok", "ok"]);
+    expect(fetchMock).toHaveBeenCalledWith(
+      "http://chatkit.test/v1/chatkit/sessions",
+      expect.objectContaining({ method: "POST" })
+    );
+  });
+
+  describe("missing config", () => {
+    it("fails and skips ChatKit without an API key", async () => {
+      const fetchMock = upstreamAnswers(200);
+      vi.stubEnv("OPENAI_API_KEY", "");
+      const report = await check();
+
+      expect(report.status).toBe("down");
+      expect(report.checks.env).toMatchObject({
+        status: "fail",
+        message: "Missing OPENAI_API_KEY",
+      });
+      expect(report.checks.upstream.status).toBe("skipped");
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("fails on a missing session secret or a malformed workflow list", async () => {
+      upstreamAnswers(200);
+      vi.stubEnv("SESSION_SECRET", "");
+      vi.stubEnv("CHATKIT_WORKFLOWS", "bangla-default=oops");
+      const { status, checks } = await check();
+
+      expect(status).toBe("down");
+      expect(checks.env.message).toMatch(/^Missing SESSION_SECRET; Invalid CHATKIT_WORKFLOWS/);
+    });
+
+    it("fails a Vercel Blob store without its token", async () => {
+      upstreamAnswers(200);
+      vi.stubEnv("LOG_STORE", "vercel-blob");
+      vi.stubEnv("BLOB_READ_WRITE_TOKEN", "");
+      const { checks } = await check();
+
+      expect(checks.env.status).toBe("fail");
+      expect(checks.env.details?.missing).toEqual(["BLOB_READ_WRITE_TOKEN"]);
+    });
+  });
+
+  describe("log store unreachable", () => {
+    it("fails when the probe cannot be written", async () => {
+      upstreamAnswers(200);
+      const broken: LogStore = {
+        ...store,
+        put: async () => {
+          throw new Error("Blob store returned 403");
+        },
+      };
+      const { status, checks } = await check({}, broken);
+
+      expect(status).toBe("down");
+      expect(checks.logStore).toMatchObject({ status: "fail", message: "Blob store returned 403" });
+    });
+
+    it("fails when the store does not answer in time", async () => {
+      upstreamAnswers(200);
+      const hanging: LogStore = { ...store, put: () => new Promise<void>(() => undefined) };
+      const { checks } = await check({ timeoutMs: 50 }, hanging);
+
+      expect(checks.logStore).toMatchObject({ status: "fail", message: "Timed out after 50 ms" });
+    });
+  });
+
+  describe("ChatKit unreachable", () => {
+    it("fails when ChatKit cannot be reached", async () => {
+      vi.stubGlobal(
+        "fetch",
+        vi.fn(async () => {
+          throw new TypeError("fetch failed");
+        })
+      );
+      const { status, checks } = await check();
+
+      expect(status).toBe("down");
+      expect(checks.upstream).toMatchObject({
+        status: "fail",
+        message: "ChatKit could not be reached: fetch failed",
+      });
+    });
+
+    it.each([
+      [429, "warn", "degraded", /^ChatKit is rate limiting requests: slow down$/],
+      [401, "fail", "down", /^ChatKit rejected OPENAI_API_KEY: slow down$/],
+      [404, "fail", "down", /for workflow "bangla-default"/],
+      [502, "fail", "down", /^ChatKit returned 502/],
+    ])("reports HTTP %i as %s", async (httpStatus, checkStatus, overall, message) => {
+      upstreamAnswers(httpStatus, { error: { message: "slow down" } });
+      const { status, checks } = await check();
+
+      expect(status).toBe(overall);
+      expect(checks.upstream.status).toBe(checkStatus);
+      expect(checks.upstream.message).toMatch(message);
+    });
+
+    it("is skipped on request", async () => {
+      const fetchMock = upstreamAnswers(200);
+      const { status, checks } = await check({ upstream: false });
+
+      expect(status).toBe("ok");
+      expect(checks.upstream.status).toBe("skipped");
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("compaction stale", () => {
+    beforeEach(async () => {
+      upstreamAnswers(200);
+      await store.delete(["logs/2025-10-16.manifest.json"]);
+    });
+
+    it("accepts the day before yesterday until the nightly run", async () => {
+      await compacted("2025-10-15");
+      expect((await check()).checks.compaction.status).toBe("ok");
+    });
+
+    it("warns when nightly runs were missed", async () => {
+      await compacted("2025-10-12");
+      await store.put("logs/_compaction/2025-10-14.json", "{}");
+      const { status, checks } = await check();
+
+      expect(status).toBe("degraded");
+      expect(checks.compaction).toMatchObject({
+        status: "warn",
+        message: "Last compacted day is 2025-10-12",
+        details: { lastDay: "2025-10-12", pendingDays: ["2025-10-14"] },
+      });
+    });
+
+    it("warns when nothing was ever compacted", async () => {
+      const { status, checks } = await check();
+
+      expect(status).toBe("degraded");
+      expect(checks.compaction.message).toBe("No compacted day in the last 35 days");
+    });
+  });
+});
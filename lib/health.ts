@@ -0,0 +1,254 @@
+import { manifestKey, pendingCompactionDays, type CompactionManifest } from "@/lib/compaction";
+import { resolveLogStoreKind, type LogStore } from "@/lib/logStore";
+import { chatkitSessionsUrl } from "@/lib/upstream";
+import { resolveWorkflowAllowlist } from "@/lib/workflows";
+
+/**
+ * Checks behind /api/health, one per dependency a deployment can lose:
+ *
+ *  - env: the variables sessions need are set and the workflow list parses
+ *  - logStore: a probe object under `health/` can be written, read back and
+ *    deleted (an expired BLOB_READ_WRITE_TOKEN fails here)
+ *  - upstream: ChatKit creates a session for the default workflow, so a
+ *    rejected key or unknown workflow id shows up as well as an outage
+ *  - compaction: when the newest compaction manifest was written
+ *
+ * A failed check makes the report `down`, a warning `degraded`. Checks never
+ * throw and each is given `timeoutMs`, so the report always arrives.
+ */
+
+export type CheckStatus = "ok" | "warn" | "fail" | "skipped";
+
+export type HealthCheck = {
+  status: CheckStatus;
+  message: string | null;
+  durationMs: number;
+  details?: Record<string, unknown>;
+};
+
+export type HealthReport = {
+  status: "ok" | "degraded" | "down";
+  checkedAt: string;
+  checks: {
+    env: HealthCheck;
+    logStore: HealthCheck;
+    upstream: HealthCheck;
+    compaction: HealthCheck;
+  };
+};
+
+export type HealthOptions = {
+  /** False skips the upstream check, which creates a (discarded) ChatKit session. */
+  upstream?: boolean;
+  timeoutMs?: number;
+  now?: () => Date;
+};
+
+const DEFAULT_TIMEOUT_MS = 8_000;
+const PROBE_PREFIX = "health/";
+const UPSTREAM_USER = "health-check";
+/**
+ * Yesterday is compacted at 02:00 UTC, so until then the newest compacted day
+ * is two days old; anything older means a nightly run was missed.
+ */
+const COMPACTION_STALE_DAYS = 2;
+/** How far back to look for the newest manifest. */
+const COMPACTION_SEARCH_DAYS = 35;
+
+type Outcome = Omit<HealthCheck, "durationMs">;
+
+export async function runHealthChecks(
+  getStore: () => LogStore,
+  { upstream = true, timeoutMs = DEFAULT_TIMEOUT_MS, now = () => new Date() }: HealthOptions = {}
+): Promise<HealthReport> {
+  const env = await timed(async () => checkEnv(), timeoutMs);
+  const canCallUpstream = env.details?.sessionsConfigured === true;
+
+  const [logStore, upstreamCheck, compaction] = await Promise.all([
+    timed(async () => checkLogStore(getStore()), timeoutMs),
+    upstream && canCallUpstream
+      ? timed(() => checkUpstream(timeoutMs), timeoutMs)
+      : skipped(upstream ? "Skipped: OPENAI_API_KEY or workflows not configured" : "Skipped"),
+    timed(async () => checkCompaction(getStore(), now()), timeoutMs),
+  ]);
+
+  const checks = { env, logStore, upstream: upstreamCheck, compaction };
+  const statuses = Object.values(checks).map((c) => c.status);
+  return {
+    status: statuses.includes("fail") ? "down" : statuses.includes("warn") ? "degraded" : "ok",
+    checkedAt: now().toISOString(),
+    checks,
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+
+function checkEnv(): Outcome {
+  const missing = ["OPENAI_API_KEY", "SESSION_SECRET"].filter((name) => !process.env[name]?.trim());
+  const problems: string[] = [];
+
+  let workflows: string[] = [];
+  try {
+    const allowlist = resolveWorkflowAllowlist();
+    workflows = Array.from(allowlist.workflows.keys());
+    if (workflows.length === 0) {
+      problems.push("No workflows configured (CHATKIT_WORKFLOWS or NEXT_PUBLIC_CHATKIT_WORKFLOW_ID)");
+    }
+  } catch (error) {
+    problems.push(errorMessage(error));
+  }
+
+  let logStore: string | null = null;
+  try {
+    logStore = resolveLogStoreKind();
+    if (logStore === "vercel-blob" && !process.env.BLOB_READ_WRITE_TOKEN) {
+      missing.push("BLOB_READ_WRITE_TOKEN");
+    }
+  } catch (error) {
+    problems.push(errorMessage(error));
+  }
+
+  if (missing.length > 0) problems.unshift(`Missing ${missing.join(", ")}`);
+  return {
+    status: problems.length > 0 ? "fail" : "ok",
+    message: problems.length > 0 ? problems.join("; ") : null,
+    details: {
+      missing,
+      workflows,
+      logStore,
+      sessionsConfigured: !!process.env.OPENAI_API_KEY?.trim() && workflows.length > 0,
+    },
+  };
+}
+
+async function checkLogStore(store: LogStore): Promise<Outcome> {
+  const key = `${PROBE_PREFIX}${crypto.randomUUID()}.json`;
+  const body = JSON.stringify({ probe: key, at: new Date().toISOString() });
+  try {
+    await store.put(key, body, { contentType: "application/json", ifAbsent: true });
+    const read = await store.getText(key);
+    if (read !== body) {
+      return {
+        status: "fail",
+        message: "Probe object read back differently",
+        details: { kind: store.kind },
+      };
+    }
+    return { status: "ok", message: null, details: { kind: store.kind } };
+  } finally {
+    await store.delete(key).catch(() => undefined);
+  }
+}
+
+async function checkUpstream(timeoutMs: number): Promise<Outcome> {
+  const allowlist = resolveWorkflowAllowlist();
+  const workflowName = allowlist.defaultName;
+  const workflowId = workflowName ? allowlist.workflows.get(workflowName) : undefined;
+
+  let response: Response;
+  try {
+    response = await fetch(chatkitSessionsUrl(), {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
+        "OpenAI-Beta": "chatkit_beta=v1",
+      },
+      body: JSON.stringify({ workflow: { id: workflowId }, user: UPSTREAM_USER }),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (error) {
+    return { status: "fail", message: `ChatKit could not be reached: ${errorMessage(error)}` };
+  }
+
+  const details = { workflow: workflowName, httpStatus: response.status };
+  if (response.ok) {
+    await response.body?.cancel();
+    return { status: "ok", message: null, details };
+  }
+
+  const reason = upstreamMessage(await response.json().catch(() => null));
+  const suffix = reason ? `: ${reason}` : "";
+  if (response.status === 429) {
+    return { status: "warn", message: `ChatKit is rate limiting requests${suffix}`, details };
+  }
+  if (response.status === 401 || response.status === 403) {
+    return { status: "fail", message: `ChatKit rejected OPENAI_API_KEY${suffix}`, details };
+  }
+  if (response.status < 500) {
+    return {
+      status: "fail",
+      message: `ChatKit rejected the session request for workflow "${workflowName}"${suffix}`,
+      details,
+    };
+  }
+  return { status: "fail", message: `ChatKit returned ${response.status}${suffix}`, details };
+}
+
+async function checkCompaction(store: LogStore, now: Date): Promise<Outcome> {
+  const pendingDays = await pendingCompactionDays(store);
+
+  let manifest: CompactionManifest | null = null;
+  const day = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  for (let i = 0; i < COMPACTION_SEARCH_DAYS && !manifest; i++) {
+    day.setUTCDate(day.getUTCDate() - 1);
+    const text = await store.getText(manifestKey(day.toISOString().slice(0, 10)));
+    manifest = text ? (JSON.parse(text) as CompactionManifest) : null;
+  }
+
+  const details = {
+    lastDay: manifest?.day ?? null,
+    lastCompactedAt: manifest?.createdAt ?? null,
+    pendingDays,
+  };
+  if (!manifest) {
+    return {
+      status: "warn",
+      message: `No compacted day in the last ${COMPACTION_SEARCH_DAYS} days`,
+      details,
+    };
+  }
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  const ageDays = Math.round((today - Date.parse(`${manifest.day}T00:00:00Z`)) / 86_400_000);
+  return ageDays > COMPACTION_STALE_DAYS
+    ? { status: "warn", message: `Last compacted day is ${manifest.day}`, details }
+    : { status: "ok", message: null, details };
+}
+
+/* -------------------------------------------------------------------------- */
+
+async function timed(run: () => Promise<Outcome>, timeoutMs: number): Promise<HealthCheck> {
+  const started = Date.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<Outcome>((resolve) => {
+    timer = setTimeout(
+      () => resolve({ status: "fail", message: `Timed out after ${timeoutMs} ms` }),
+      timeoutMs
+    );
+  });
+  try {
+    const outcome = await Promise.race([
+      run().catch((error): Outcome => ({ status: "fail", message: errorMessage(error) })),
+      timeout,
+    ]);
+    return { ...outcome, durationMs: Date.now() - started };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function skipped(message: string): HealthCheck {
+  return { status: "skipped", message, durationMs: 0 };
+}
+
+function upstreamMessage(payload: unknown): string | null {
+  if (typeof payload !== "object" || payload === null) return null;
+  const error = (payload as { error?: unknown }).error;
+  if (typeof error === "string") return error;
+  const message = (error as { message?: unknown } | null)?.message;
+  return typeof message === "string" ? message : null;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,68 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { findIngestedRecord, ingestRecord } from "@/lib/ingest";
+import { buildLogRecord, validateLogInput, type LogRecord } from "@/lib/logSchema";
+import type { LogStore } from "@/lib/logStore";
+import { createFilesystemStore } from "@/lib/logStore/filesystem";
+
+let dir: string;
+let store: LogStore;
+
+function eventRecord(ts: string, sessionId: string): LogRecord {
+  const input = validateLogInput({ type: "event", text: "হ্যালো" });
+  if (!input.ok) throw new Error("invalid test input");
+  return buildLogRecord(input.value, {
+    event_id: crypto.randomUUID(),
+    ts,
+    ua: "test",
+    redactions: [],
+    session_id: sessionId,
+  });
+}
+
+describe("ingestRecord", () => {
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "ingest-"));
+    store = createFilesystemStore(dir);
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("stores a retry from the same session once", async () => {
+    const first = await ingestRecord(store, eventRecord("2025-10-15T12:00:00.000Z", "s1"), "k1");
+    const retry = await ingestRecord(store, eventRecord("2025-10-15T12:00:01.000Z", "s1"), "k1");
+
+    expect(first.duplicate).toBe(false);
+    expect(retry).toEqual({ key: first.key, duplicate: true });
+    expect((await store.list("logs/2025-10-15/")).objects).toHaveLength(1);
+  });
+
+  it("keeps the same key sent by two sessions apart", async () => {
+    const a = await ingestRecord(store, eventRecord("2025-10-15T12:00:00.000Z", "s1"), "k1");
+    const b = await ingestRecord(store, eventRecord("2025-10-15T12:00:00.000Z", "s2"), "k1");
+
+    expect(b.duplicate).toBe(false);
+    expect(b.key).not.toBe(a.key);
+    expect(await findIngestedRecord(store, "s2", "k1", "2025-10-15")).toMatchObject({
+      session_id: "s2",
+    });
+  });
+
+  it("catches a retry across midnight", async () => {
+    const first = await ingestRecord(store, eventRecord("2025-10-15T23:59:59.000Z", "s1"), "k1");
+    const retry = await ingestRecord(store, eventRecord("2025-10-16T00:00:02.000Z", "s1"), "k1");
+
+    expect(retry).toEqual({ key: first.key, duplicate: true });
+  });
+
+  it("reads the previous day's markers only near midnight", async () => {
+    const getText = vi.spyOn(store, "getText");
+    await ingestRecord(store, eventRecord("2025-10-16T09:00:00.000Z", "s1"), "k1");
+
+    expect(getText).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,150 @@
+import { LogStoreConflictError, type LogStore } from "@/lib/logStore";
+import { sha256 } from "@/lib/logFiles";
+import type { LogRecord } from "@/lib/logSchema";
+import { subjectDayKey } from "@/lib/erasure";
+
+/**
+ * Writes validated records to `logs/<day>/`.
+ *
+ * Keys embed the record's `event_id`, so records stored in the same
+ * millisecond never overwrite each other. When the caller supplies an
+ * idempotency key (the `Idempotency-Key` header, or a turn's `id`), a
+ * marker under `logs/_idempotency/<day>/` remembers where the first copy
+ * went and retries return that key instead of writing again. Markers are
+ * scoped to the record's session, so two sessions sending the same key do
+ * not collide. Within RETRY_WINDOW_MS of midnight UTC the previous day's
+ * marker is also checked so a retry across midnight is caught, and
+ * findIngestedRecord uses markers to read a record back by that key.
+ *
+ * Records with a `session_id` also leave an empty marker under
+ * `logs/_subjects/` so erasure requests can find the days to visit.
+ */
+
+export type IngestResult = {
+  key: string;
+  duplicate: boolean;
+};
+
+type IdempotencyMarker = {
+  key: string;
+  ts: string;
+};
+
+// Retries arrive within seconds; a request this soon after midnight may
+// repeat one stored the day before.
+const RETRY_WINDOW_MS = 10 * 60 * 1000;
+
+const markerKey = (day: string, sessionId: string, idempotencyKey: string) =>
+  `logs/_idempotency/${day}/${sha256(`${sessionId}\n${idempotencyKey}`)}.json`;
+
+export function eventKey(record: LogRecord): string {
+  const day = record.ts.slice(0, 10);
+  const time = record.ts.slice(11, 23).replace(/[:.]/g, "-");
+  const suffix =
+    record.type === "turn" ? ".turn.json" : record.type === "feedback" ? ".feedback.json" : ".json";
+  return `logs/${day}/${time}-${record.event_id}${suffix}`;
+}
+
+export async function ingestRecord(
+  store: LogStore,
+  record: LogRecord,
+  idempotencyKey?: string | null
+): Promise<IngestResult> {
+  const key = eventKey(record);
+
+  let claimed: string | null = null;
+  if (idempotencyKey) {
+    const day = record.ts.slice(0, 10);
+    const sessionId = record.session_id;
+    if (Date.parse(record.ts) - Date.parse(`${day}T00:00:00Z`) < RETRY_WINDOW_MS) {
+      const previous = await readMarker(
+        store,
+        markerKey(previousDay(day), sessionId, idempotencyKey)
+      );
+      if (previous) {
+        return { key: previous.key, duplicate: true };
+      }
+    }
+
+    claimed = markerKey(day, sessionId, idempotencyKey);
+    const marker: IdempotencyMarker = { key, ts: record.ts };
+    try {
+      await store.put(claimed, JSON.stringify(marker), {
+        contentType: "application/json",
+        ifAbsent: true,
+      });
+    } catch (error) {
+      if (!(error instanceof LogStoreConflictError)) {
+        throw error;
+      }
+      const existing = await readMarker(store, claimed);
+      return { key: existing?.key ?? key, duplicate: true };
+    }
+  }
+
+  try {
+    await store.put(key, JSON.stringify(record), {
+      contentType: "application/json",
+      ifAbsent: true,
+    });
+  } catch (error) {
+    // Let a retry write the record rather than pointing at nothing.
+    if (claimed) {
+      await store.delete(claimed).catch(() => undefined);
+    }
+    throw error;
+  }
+
+  if (record.session_id) {
+    await store.put(subjectDayKey(record.session_id, record.ts.slice(0, 10)), "", {
+      contentType: "text/plain",
+    });
+  }
+
+  return { key, duplicate: false };
+}
+
+/**
+ * The record `sessionId` stored under `idempotencyKey` on `day` or the day
+ * before, or null when there is none or it has been compacted away since.
+ */
+export async function findIngestedRecord(
+  store: LogStore,
+  sessionId: string,
+  idempotencyKey: string,
+  day: string
+): Promise<LogRecord | null> {
+  const marker =
+    (await readMarker(store, markerKey(day, sessionId, idempotencyKey))) ??
+    (await readMarker(store, markerKey(previousDay(day), sessionId, idempotencyKey)));
+  const raw = marker ? await store.getText(marker.key) : null;
+  if (!raw) {
+    return null;
+  }
+  try {
+    return JSON.parse(raw) as LogRecord;
+  } catch {
+    return null;
+  }
+}
+
+async function readMarker(
+  store: LogStore,
+  key: string
+): Promise<IdempotencyMarker | null> {
+  const raw = await store.getText(key);
+  if (!raw) {
+    return null;
+  }
+  try {
+    return JSON.parse(raw) as IdempotencyMarker;
+  } catch {
+    return null;
+  }
+}
+
+function previousDay(day: string): string {
+  const d = new Date(`${day}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() - 1);
+  return d.toISOString().slice(0, 10);
+}
@@ -0,0 +1,83 @@
+/**
+ * Daily latency figures from the `metrics` that turns carry since schema
+ * version 7. Percentiles use the nearest-rank method over the turns that
+ * reported a value; older turns are counted in `turns` but not `measured`.
+ */
+
+const METRIC_FIELDS = ["start_ms", "first_token_ms", "stream_ms", "bytes"] as const;
+
+type MetricField = (typeof METRIC_FIELDS)[number];
+
+export type LatencyStat = {
+  count: number;
+  p50: number | null;
+  p95: number | null;
+};
+
+export type LatencySummary = {
+  turns: number;
+  /** Turns that carried metrics. */
+  measured: number;
+  truncated: number;
+} & Record<MetricField, LatencyStat>;
+
+export function summariseLatency(lines: Iterable<string>): LatencySummary {
+  const values: Record<MetricField, number[]> = {
+    start_ms: [],
+    first_token_ms: [],
+    stream_ms: [],
+    bytes: [],
+  };
+  let turns = 0;
+  let measured = 0;
+  let truncated = 0;
+
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    let record: { type?: unknown; metrics?: unknown };
+    try {
+      record = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    if (record?.type !== "turn") continue;
+    turns += 1;
+    const metrics = record.metrics;
+    if (typeof metrics !== "object" || metrics === null) continue;
+    measured += 1;
+    const m = metrics as Record<string, unknown>;
+    if (m.truncated === true) truncated += 1;
+    for (const field of METRIC_FIELDS) {
+      const v = m[field];
+      if (typeof v === "number" && Number.isFinite(v)) values[field].push(v);
+    }
+  }
+
+  const stat = (list: number[]): LatencyStat => {
+    const sorted = [...list].sort((a, b) => a - b);
+    return {
+      count: sorted.length,
+      p50: percentile(sorted, 50),
+      p95: percentile(sorted, 95),
+    };
+  };
+
+  return {
+    turns,
+    measured,
+    truncated,
+    start_ms: stat(values.start_ms),
+    first_token_ms: stat(values.first_token_ms),
+    stream_ms: stat(values.stream_ms),
+    bytes: stat(values.bytes),
+  };
+}
+
+/** Nearest-rank percentile of an ascending list; null when it is empty. */
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) {
+    return null;
+  }
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
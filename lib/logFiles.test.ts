@@ -0,0 +1,56 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createFilesystemStore } from "@/lib/logStore/filesystem";
+import type { LogStore } from "@/lib/logStore";
+import { daysFromQuery, encodeNdjson, readCompactedDays } from "@/lib/logFiles";
+
+const query = (q: string) => new URLSearchParams(q);
+
+describe("daysFromQuery", () => {
+  it("reads one day or an inclusive range", () => {
+    expect(daysFromQuery(query("day=2025-10-17"))).toEqual(["2025-10-17"]);
+    expect(daysFromQuery(query("from=2025-10-30&to=2025-11-02"))).toEqual([
+      "2025-10-30",
+      "2025-10-31",
+      "2025-11-01",
+      "2025-11-02",
+    ]);
+  });
+
+  it.each([
+    ["", "from and to must be YYYY-MM-DD dates"],
+    ["day=2025-02-30", "day must be a YYYY-MM-DD date"],
+    ["from=2025-10-17&to=2025-10-16", "from must not be after to"],
+    ["from=2025-01-01&to=2025-02-01", "Range is limited to 31 days"],
+  ])("rejects %j", (q, message) => {
+    expect(() => daysFromQuery(query(q))).toThrow(new RangeError(message));
+  });
+});
+
+describe("readCompactedDays", () => {
+  let dir: string;
+  let store: LogStore;
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "logfiles-"));
+    store = createFilesystemStore(dir);
+  });
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  it("reads either format in order and reports days not compacted", async () => {
+    await store.put("logs/2025-10-15.ndjson.gz", encodeNdjson('{"n":1}\n', "gzip"));
+    await store.put("logs/2025-10-17.ndjson", encodeNdjson('{"n":2}\n{"n":3}\n', "none"));
+    const seen: [string, string[]][] = [];
+    const { missing } = await readCompactedDays(
+      store,
+      ["2025-10-15", "2025-10-16", "2025-10-17"],
+      (day, lines) => seen.push([day, lines.filter(Boolean)])
+    );
+    expect(seen).toEqual([
+      ["2025-10-15", ['{"n":1}']],
+      ["2025-10-17", ['{"n":2}', '{"n":3}']],
+    ]);
+    expect(missing).toEqual(["2025-10-16"]);
+  });
+});
@@ -0,0 +1,158 @@
+import { createHash } from "node:crypto";
+import { gunzipSync, gzipSync } from "node:zlib";
+import type { LogStore } from "@/lib/logStore";
+
+/**
+ * Helpers shared by compaction and rollups for reading and writing NDJSON
+ * files, optionally gzip compressed, under the `logs/` layout:
+ *
+ *  - logs/<day>/<time>.json        one event per object
+ *  - logs/<day>.ndjson[.gz]        daily compaction output
+ *  - logs/monthly/<month>.ndjson.gz monthly rollup
+ *
+ * and for the admin routes that read compacted days back by date range.
+ */
+
+export type LogCompression = "gzip" | "none";
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_RANGE_DAYS = 366;
+/** The most days one admin report may read. */
+export const MAX_QUERY_DAYS = 31;
+
+export type ContentSummary = {
+  lines: number;
+  bytes: number;
+  sha256: string;
+};
+
+/** LOG_COMPRESSION=gzip | none (default gzip). */
+export function resolveCompression(): LogCompression {
+  return process.env.LOG_COMPRESSION?.trim().toLowerCase() === "none" ? "none" : "gzip";
+}
+
+export const dailyKey = (day: string, compression: LogCompression) =>
+  `logs/${day}.ndjson${compression === "gzip" ? ".gz" : ""}`;
+
+/** The key of the day's compacted file in either format, gzip preferred. */
+export async function findDailyFile(
+  store: LogStore,
+  day: string
+): Promise<string | null> {
+  const page = await store.list(`logs/${day}.ndjson`, { limit: 10 });
+  const keys = page.objects.map((o) => o.key);
+  return (
+    keys.find((k) => k === dailyKey(day, "gzip")) ??
+    keys.find((k) => k === dailyKey(day, "none")) ??
+    null
+  );
+}
+
+export function isDay(value: string): boolean {
+  if (!DAY_PATTERN.test(value)) {
+    return false;
+  }
+  const d = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(d.getTime()) && d.toISOString().slice(0, 10) === value;
+}
+
+/**
+ * Every day from `from` to `to` inclusive. Throws on malformed bounds,
+ * reversed ranges and ranges longer than a year.
+ */
+export function daysInRange(from: string, to: string): string[] {
+  if (!isDay(from) || !isDay(to)) {
+    throw new RangeError("from and to must be YYYY-MM-DD dates");
+  }
+  if (from > to) {
+    throw new RangeError("from must not be after to");
+  }
+  const days: string[] = [];
+  const d = new Date(`${from}T00:00:00Z`);
+  for (let day = from; day <= to; ) {
+    if (days.length >= MAX_RANGE_DAYS) {
+      throw new RangeError(`Range is limited to ${MAX_RANGE_DAYS} days`);
+    }
+    days.push(day);
+    d.setUTCDate(d.getUTCDate() + 1);
+    day = d.toISOString().slice(0, 10);
+  }
+  return days;
+}
+
+/**
+ * The days named by a report's query: `day=YYYY-MM-DD`, or `from=` and `to=`
+ * for an inclusive range of at most MAX_QUERY_DAYS. Throws RangeError with a
+ * message fit for a 400 response.
+ */
+export function daysFromQuery(params: URLSearchParams): string[] {
+  const day = params.get("day");
+  if (day && !isDay(day)) throw new RangeError("day must be a YYYY-MM-DD date");
+  const days = daysInRange(params.get("from") ?? day ?? "", params.get("to") ?? day ?? "");
+  if (days.length > MAX_QUERY_DAYS) {
+    throw new RangeError(`Range is limited to ${MAX_QUERY_DAYS} days`);
+  }
+  return days;
+}
+
+/**
+ * Reads the compacted file of each day in order, calling `onDay` with its
+ * lines. Days not compacted yet are skipped and returned.
+ */
+export async function readCompactedDays(
+  store: LogStore,
+  days: string[],
+  onDay: (day: string, lines: string[]) => void
+): Promise<{ missing: string[] }> {
+  const missing: string[] = [];
+  for (const day of days) {
+    const key = await findDailyFile(store, day);
+    const text = key ? await readNdjson(store, key) : null;
+    if (text === null) {
+      missing.push(day);
+      continue;
+    }
+    onDay(day, text.split("\n"));
+  }
+  return { missing };
+}
+
+export function encodeNdjson(text: string, compression: LogCompression): Uint8Array {
+  const bytes = new TextEncoder().encode(text);
+  return compression === "gzip" ? new Uint8Array(gzipSync(bytes)) : bytes;
+}
+
+/** Reads an NDJSON object, decompressing it when the key ends in `.gz`. */
+export async function readNdjson(store: LogStore, key: string): Promise<string | null> {
+  const bytes = await store.get(key);
+  if (!bytes) {
+    return null;
+  }
+  const plain = key.endsWith(".gz") ? gunzipSync(bytes) : bytes;
+  return new TextDecoder().decode(plain);
+}
+
+export function ndjsonContentType(compression: LogCompression): string {
+  return compression === "gzip" ? "application/gzip" : "application/x-ndjson";
+}
+
+export function describe(text: string): ContentSummary {
+  const bytes = new TextEncoder().encode(text);
+  let lines = 0;
+  for (let i = 0; i < text.length; i += 1) {
+    if (text.charCodeAt(i) === 10) lines += 1;
+  }
+  return { lines, bytes: bytes.byteLength, sha256: sha256(bytes) };
+}
+
+export function matches(actual: ContentSummary, expected: ContentSummary): boolean {
+  return (
+    actual.lines === expected.lines &&
+    actual.bytes === expected.bytes &&
+    actual.sha256 === expected.sha256
+  );
+}
+
+export function sha256(data: Uint8Array | string): string {
+  return createHash("sha256").update(data).digest("hex");
+}
@@ -0,0 +1,426 @@
+/**
+ * Record shapes accepted by /api/log-event and stored under `logs/<day>/`.
+ *
+ * Every stored record carries `schema_version`. Records written before
+ * versioning have no such field and are treated as version 0; readers
+ * should go through `schemaVersionOf` rather than assuming a version.
+ *
+ * Version history:
+ *  - 0: unversioned. Turns as below; events had no `type` field.
+ *  - 1: `schema_version` added; events carry `type: "event"`.
+ *  - 2: `event_id` added; unique per stored record.
+ *  - 3: `redactions` added; text fields are stored redacted.
+ *  - 4: `session_id` added; the browser's chatkit_session_id cookie.
+ *  - 5: `consent` added; what the client reported about logging consent.
+ *  - 6: turns carry `thread_id` (ChatKit thread, "" when unknown) and `seq`
+ *       (1-based turn number within the thread, 0 when unknown).
+ *  - 7: turns carry `metrics` (client-measured latency, null when not sent).
+ *  - 8: `feedback` records (answer ratings), accepted by /api/feedback.
+ *  - 9: turns carry `attachments` (metadata of files uploaded with the
+ *       user's message; [] when none or not seen).
+ *  - 10: turns carry `item_ids` (ChatKit ids of the assistant messages of
+ *        the reply, which ratings refer to; [] when not seen).
+ */
+
+import type { Redaction } from "@/lib/redaction";
+
+export const LOG_SCHEMA_VERSION = 10;
+
+const MAX_ID_LENGTH = 200;
+const MAX_TEXT_LENGTH = 20_000;
+const MAX_META_BYTES = 4_096;
+const MAX_COMMENT_LENGTH = 2_000;
+const MAX_ITEM_IDS = 20;
+const MAX_ATTACHMENTS = 10;
+const SHA256_HEX = /^[0-9a-f]{64}$/;
+const ROLES = ["user", "assistant", "system", "tool"] as const;
+const CONSENTS = ["granted", "declined"] as const;
+const RATINGS = ["up", "down"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+/** "unknown" when the client did not say, as older clients do not. */
+export type Consent = (typeof CONSENTS)[number] | "unknown";
+
+/** Client-side timings for one turn, in milliseconds; null when not measured. */
+export type TurnMetrics = {
+  /** Message sent → response started. */
+  start_ms: number | null;
+  /** Message sent → first assistant text. */
+  first_token_ms: number | null;
+  /** First assistant text → response finished. */
+  stream_ms: number | null;
+  bytes: number;
+  /** The response failed or was cut off before it finished. */
+  truncated: boolean;
+};
+
+/** A file uploaded with the user's message. The content itself is not logged. */
+export type AttachmentMeta = {
+  /** MIME type as reported by the browser; "" when unknown. */
+  type: string;
+  size: number;
+  /** Hex SHA-256 of the content; also names the archived copy, if any. */
+  sha256: string;
+};
+
+/** A user message and the assistant reply to it. */
+export type TurnInput = {
+  type: "turn";
+  id: string;
+  user_text: string;
+  user_ts: string;
+  assistant_text: string;
+  assistant_ts: string;
+  thread_id: string;
+  seq: number;
+  consent: Consent;
+  metrics: TurnMetrics | null;
+  attachments: AttachmentMeta[];
+  /** ChatKit thread item ids of the assistant's reply. */
+  item_ids: string[];
+  meta: Record<string, unknown>;
+};
+
+/** Legacy single-sided message, kept for older clients. */
+export type EventInput = {
+  type: "event";
+  role: Role;
+  text: string;
+  sessionId: string;
+  threadId: string;
+  consent: Consent;
+  meta: Record<string, unknown>;
+};
+
+/**
+ * A rating of an answer. Sent again with the same `id` when the user adds a
+ * comment; readers keep the latest record per `id`.
+ */
+export type FeedbackInput = {
+  type: "feedback";
+  id: string;
+  rating: Rating;
+  comment: string;
+  /** The logged turn the rating was linked to on the client; "" if none. */
+  turn_id: string;
+  thread_id: string;
+  /** ChatKit thread item ids the rating was given on. */
+  item_ids: string[];
+  consent: Consent;
+  meta: Record<string, unknown>;
+};
+
+export type Rating = (typeof RATINGS)[number];
+
+export type LogInput = TurnInput | EventInput | FeedbackInput;
+
+type ServerFields = {
+  schema_version: typeof LOG_SCHEMA_VERSION;
+  /** Server-generated UUID, also part of the storage key. */
+  event_id: string;
+  /** Server receive time (ISO 8601). */
+  ts: string;
+  ua: string;
+  /** What was masked in the text fields before storage. */
+  redactions: Redaction[];
+  /** Identity from the session cookie; "" when the request had none. */
+  session_id: string;
+};
+
+export type TurnRecord = ServerFields & TurnInput;
+export type EventRecord = ServerFields & EventInput & { len: number };
+export type FeedbackRecord = ServerFields & FeedbackInput;
+export type LogRecord = TurnRecord | EventRecord | FeedbackRecord;
+
+export type ValidationIssue = {
+  path: string;
+  message: string;
+};
+
+export type ValidationResult<T = LogInput> =
+  | { ok: true; value: T }
+  | { ok: false; issues: ValidationIssue[] };
+
+/** Turns and legacy events, as accepted by /api/log-event. */
+export function validateLogInput(
+  body: unknown
+): ValidationResult<TurnInput | EventInput> {
+  const issues: ValidationIssue[] = [];
+  if (!isPlainObject(body)) {
+    return { ok: false, issues: [{ path: "", message: "must be a JSON object" }] };
+  }
+
+  const meta = readMeta(body, issues);
+  const consent = readConsent(body, issues);
+
+  if (body.type === "turn") {
+    const value: TurnInput = {
+      type: "turn",
+      id: readString(body, "id", issues, { required: true, max: MAX_ID_LENGTH }),
+      user_text: readString(body, "user_text", issues, { max: MAX_TEXT_LENGTH }),
+      user_ts: readTimestamp(body, "user_ts", issues),
+      assistant_text: readString(body, "assistant_text", issues, {
+        required: true,
+        max: MAX_TEXT_LENGTH,
+      }),
+      assistant_ts: readTimestamp(body, "assistant_ts", issues),
+      thread_id: readString(body, "thread_id", issues, { max: MAX_ID_LENGTH }),
+      seq: readCount(body, "seq", issues),
+      consent,
+      metrics: readMetrics(body, issues),
+      attachments: readAttachments(body, issues),
+      item_ids: readIdList(body, "item_ids", issues),
+      meta,
+    };
+    return issues.length > 0 ? { ok: false, issues } : { ok: true, value };
+  }
+
+  if (body.type !== undefined && body.type !== "event") {
+    return {
+      ok: false,
+      issues: [{ path: "type", message: 'must be "turn", "event" or omitted' }],
+    };
+  }
+
+  const role = body.role ?? "user";
+  if (typeof role !== "string" || !(ROLES as readonly string[]).includes(role)) {
+    issues.push({ path: "role", message: `must be one of ${ROLES.join(", ")}` });
+  }
+  const value: EventInput = {
+    type: "event",
+    role: role as Role,
+    text: readString(body, "text", issues, { required: true, max: MAX_TEXT_LENGTH }),
+    sessionId: readString(body, "sessionId", issues, { max: MAX_ID_LENGTH }),
+    threadId: readString(body, "threadId", issues, { max: MAX_ID_LENGTH }),
+    consent,
+    meta,
+  };
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, value };
+}
+
+export function validateFeedbackInput(body: unknown): ValidationResult<FeedbackInput> {
+  const issues: ValidationIssue[] = [];
+  if (!isPlainObject(body)) {
+    return { ok: false, issues: [{ path: "", message: "must be a JSON object" }] };
+  }
+
+  const rating = body.rating;
+  if (typeof rating !== "string" || !(RATINGS as readonly string[]).includes(rating)) {
+    issues.push({ path: "rating", message: `must be one of ${RATINGS.join(", ")}` });
+  }
+  const value: FeedbackInput = {
+    type: "feedback",
+    id: readString(body, "id", issues, { required: true, max: MAX_ID_LENGTH }),
+    rating: rating as Rating,
+    comment: readString(body, "comment", issues, { max: MAX_COMMENT_LENGTH }),
+    turn_id: readString(body, "turn_id", issues, { max: MAX_ID_LENGTH }),
+    thread_id: readString(body, "thread_id", issues, { max: MAX_ID_LENGTH }),
+    item_ids: readIdList(body, "item_ids", issues),
+    consent: readConsent(body, issues),
+    meta: readMeta(body, issues),
+  };
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, value };
+}
+
+export function buildLogRecord(
+  input: LogInput,
+  server: Omit<ServerFields, "schema_version">
+): LogRecord {
+  const base = { schema_version: LOG_SCHEMA_VERSION, ...server } as const;
+  return input.type === "event"
+    ? { ...base, ...input, len: input.text.length }
+    : { ...base, ...input };
+}
+
+/** The schema version of a stored record; 0 for records predating versioning. */
+export function schemaVersionOf(record: unknown): number {
+  if (!isPlainObject(record)) {
+    return 0;
+  }
+  const v = record.schema_version;
+  return typeof v === "number" && Number.isInteger(v) && v > 0 ? v : 0;
+}
+
+/* -------------------------------------------------------------------------- */
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readString(
+  body: Record<string, unknown>,
+  field: string,
+  issues: ValidationIssue[],
+  { required = false, max }: { required?: boolean; max: number }
+): string {
+  const value = body[field];
+  if (value === undefined || value === null) {
+    if (required) issues.push({ path: field, message: "is required" });
+    return "";
+  }
+  if (typeof value !== "string") {
+    issues.push({ path: field, message: "must be a string" });
+    return "";
+  }
+  if (required && value.trim().length === 0) {
+    issues.push({ path: field, message: "must not be empty" });
+  }
+  if (value.length > max) {
+    issues.push({ path: field, message: `must be at most ${max} characters` });
+  }
+  return value;
+}
+
+function readTimestamp(
+  body: Record<string, unknown>,
+  field: string,
+  issues: ValidationIssue[]
+): string {
+  const value = readString(body, field, issues, { max: 64 });
+  if (value && Number.isNaN(Date.parse(value))) {
+    issues.push({ path: field, message: "must be an ISO 8601 timestamp" });
+  }
+  return value;
+}
+
+function readIdList(
+  body: Record<string, unknown>,
+  field: string,
+  issues: ValidationIssue[]
+): string[] {
+  const value = body[field];
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (
+    !Array.isArray(value) ||
+    value.length > MAX_ITEM_IDS ||
+    !value.every((v) => typeof v === "string" && v.length <= MAX_ID_LENGTH)
+  ) {
+    issues.push({
+      path: field,
+      message: `must be at most ${MAX_ITEM_IDS} ids of up to ${MAX_ID_LENGTH} characters`,
+    });
+    return [];
+  }
+  return value as string[];
+}
+
+function readCount(
+  body: Record<string, unknown>,
+  field: string,
+  issues: ValidationIssue[]
+): number {
+  const value = body[field];
+  if (value === undefined || value === null) {
+    return 0;
+  }
+  if (typeof value !== "number" || !Number.isSafeInteger(value) || value < 0) {
+    issues.push({ path: field, message: "must be a non-negative integer" });
+    return 0;
+  }
+  return value;
+}
+
+function readMetrics(
+  body: Record<string, unknown>,
+  issues: ValidationIssue[]
+): TurnMetrics | null {
+  const metrics = body.metrics;
+  if (metrics === undefined || metrics === null) {
+    return null;
+  }
+  if (!isPlainObject(metrics)) {
+    issues.push({ path: "metrics", message: "must be an object" });
+    return null;
+  }
+  const duration = (field: string): number | null => {
+    const value = metrics[field];
+    if (value === undefined || value === null) return null;
+    if (typeof value !== "number" || !Number.isSafeInteger(value) || value < 0) {
+      issues.push({ path: `metrics.${field}`, message: "must be a non-negative integer" });
+      return null;
+    }
+    return value;
+  };
+  if (metrics.truncated !== undefined && typeof metrics.truncated !== "boolean") {
+    issues.push({ path: "metrics.truncated", message: "must be a boolean" });
+  }
+  return {
+    start_ms: duration("start_ms"),
+    first_token_ms: duration("first_token_ms"),
+    stream_ms: duration("stream_ms"),
+    bytes: duration("bytes") ?? 0,
+    truncated: metrics.truncated === true,
+  };
+}
+
+function readAttachments(
+  body: Record<string, unknown>,
+  issues: ValidationIssue[]
+): AttachmentMeta[] {
+  const value = body.attachments;
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!Array.isArray(value) || value.length > MAX_ATTACHMENTS) {
+    issues.push({
+      path: "attachments",
+      message: `must be an array of at most ${MAX_ATTACHMENTS} items`,
+    });
+    return [];
+  }
+  return value.map((item, i): AttachmentMeta => {
+    const path = `attachments.${i}`;
+    if (!isPlainObject(item)) {
+      issues.push({ path, message: "must be an object" });
+      return { type: "", size: 0, sha256: "" };
+    }
+    const type = item.type ?? "";
+    if (typeof type !== "string" || type.length > 100) {
+      issues.push({ path: `${path}.type`, message: "must be a string of up to 100 characters" });
+    }
+    const size = item.size;
+    if (typeof size !== "number" || !Number.isSafeInteger(size) || size < 0) {
+      issues.push({ path: `${path}.size`, message: "must be a non-negative integer" });
+    }
+    if (typeof item.sha256 !== "string" || !SHA256_HEX.test(item.sha256)) {
+      issues.push({ path: `${path}.sha256`, message: "must be a hex SHA-256 digest" });
+    }
+    return { type: type as string, size: size as number, sha256: item.sha256 as string };
+  });
+}
+
+function readConsent(
+  body: Record<string, unknown>,
+  issues: ValidationIssue[]
+): Consent {
+  const consent = body.consent;
+  if (consent === undefined || consent === null) {
+    return "unknown";
+  }
+  if (typeof consent !== "string" || !(CONSENTS as readonly string[]).includes(consent)) {
+    issues.push({ path: "consent", message: `must be one of ${CONSENTS.join(", ")}` });
+    return "unknown";
+  }
+  return consent as Consent;
+}
+
+function readMeta(
+  body: Record<string, unknown>,
+  issues: ValidationIssue[]
+): Record<string, unknown> {
+  const meta = body.meta;
+  if (meta === undefined || meta === null) {
+    return {};
+  }
+  if (!isPlainObject(meta)) {
+    issues.push({ path: "meta", message: "must be an object" });
+    return {};
+  }
+  if (JSON.stringify(meta).length > MAX_META_BYTES) {
+    issues.push({ path: "meta", message: `must serialise to at most ${MAX_META_BYTES} bytes` });
+  }
+  return meta;
+}
@@ -0,0 +1,7 @@
+/** Thrown by `put(..., { ifAbsent: true })` when the key already exists. */
+export class LogStoreConflictError extends Error {
+  constructor(readonly key: string) {
+    super(`Log object already exists: ${key}`);
+    this.name = "LogStoreConflictError";
+  }
+}
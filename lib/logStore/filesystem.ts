@@ -0,0 +1,134 @@
+import { mkdir, readdir, readFile, rm, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { LogStoreConflictError } from "./errors";
+import { createSignedDownloadPath } from "./signing";
+import type {
+  LogListOptions,
+  LogListPage,
+  LogObject,
+  LogPutOptions,
+  LogStore,
+} from "./types";
+
+const DEFAULT_LIST_LIMIT = 1000;
+
+/**
+ * Local filesystem backend for development and offline runs. Keys map to
+ * files below `rootDir` (LOG_STORE_DIR, default `./.logs`).
+ */
+export function createFilesystemStore(
+  rootDir = process.env.LOG_STORE_DIR?.trim() || path.join(process.cwd(), ".logs")
+): LogStore {
+  const root = path.resolve(rootDir);
+
+  const resolveKey = (key: string): string => {
+    const target = path.resolve(root, key);
+    if (target !== root && !target.startsWith(root + path.sep)) {
+      throw new Error(`Invalid log key: ${key}`);
+    }
+    return target;
+  };
+
+  const walk = async (dir: string, out: string[]): Promise<void> => {
+    let entries;
+    try {
+      entries = await readdir(dir, { withFileTypes: true });
+    } catch (error) {
+      if (isNotFound(error)) {
+        return;
+      }
+      throw error;
+    }
+    for (const entry of entries) {
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        await walk(full, out);
+      } else if (entry.isFile()) {
+        out.push(path.relative(root, full).split(path.sep).join("/"));
+      }
+    }
+  };
+
+  const get = async (key: string): Promise<Uint8Array | null> => {
+    try {
+      return new Uint8Array(await readFile(resolveKey(key)));
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  };
+
+  return {
+    kind: "fs",
+
+    async put(key: string, body: string | Uint8Array, options?: LogPutOptions) {
+      const target = resolveKey(key);
+      await mkdir(path.dirname(target), { recursive: true });
+      try {
+        await writeFile(target, body, { flag: options?.ifAbsent ? "wx" : "w" });
+      } catch (error) {
+        if (options?.ifAbsent && errorCode(error) === "EEXIST") {
+          throw new LogStoreConflictError(key);
+        }
+        throw error;
+      }
+    },
+
+    get,
+
+    async getText(key: string) {
+      const bytes = await get(key);
+      return bytes ? new TextDecoder().decode(bytes) : null;
+    },
+
+    async list(prefix: string, options?: LogListOptions): Promise<LogListPage> {
+      // Only walk the deepest directory that can contain the prefix.
+      const slash = prefix.lastIndexOf("/");
+      const baseDir = slash >= 0 ? resolveKey(prefix.slice(0, slash)) : root;
+
+      const keys: string[] = [];
+      await walk(baseDir, keys);
+
+      const cursor = options?.cursor ?? null;
+      const limit = options?.limit ?? DEFAULT_LIST_LIMIT;
+      const matching = keys
+        .filter((k) => k.startsWith(prefix) && (!cursor || k > cursor))
+        .sort();
+      const pageKeys = matching.slice(0, limit);
+
+      const objects: LogObject[] = [];
+      for (const key of pageKeys) {
+        const info = await stat(resolveKey(key));
+        objects.push({ key, size: info.size, uploadedAt: info.mtime });
+      }
+
+      return {
+        objects,
+        cursor:
+          matching.length > pageKeys.length ? pageKeys[pageKeys.length - 1] : null,
+      };
+    },
+
+    async signedUrl(key: string, expiresInSeconds: number) {
+      return createSignedDownloadPath(key, expiresInSeconds);
+    },
+
+    async delete(keys: string | string[]) {
+      for (const key of Array.isArray(keys) ? keys : [keys]) {
+        await rm(resolveKey(key), { force: true });
+      }
+    },
+  };
+}
+
+function errorCode(error: unknown): unknown {
+  return typeof error === "object" && error !== null
+    ? (error as { code?: unknown }).code
+    : undefined;
+}
+
+function isNotFound(error: unknown): boolean {
+  return errorCode(error) === "ENOENT";
+}
@@ -0,0 +1,44 @@
+import { createFilesystemStore } from "./filesystem";
+import { createVercelBlobStore } from "./vercelBlob";
+import type { LogStore, LogStoreKind } from "./types";
+
+export { LogStoreConflictError } from "./errors";
+export { acquireLease, type Lease } from "./lease";
+export { verifySignedDownload } from "./signing";
+
+export type {
+  LogListOptions,
+  LogListPage,
+  LogObject,
+  LogPutOptions,
+  LogStore,
+  LogStoreKind,
+} from "./types";
+
+let cached: LogStore | null = null;
+
+/**
+ * Backend selection:
+ *  - LOG_STORE=vercel-blob | fs
+ *  - Unset: Vercel Blob when BLOB_READ_WRITE_TOKEN is present, else fs.
+ */
+export function resolveLogStoreKind(): LogStoreKind {
+  const configured = process.env.LOG_STORE?.trim().toLowerCase();
+  if (configured === "fs" || configured === "vercel-blob") {
+    return configured;
+  }
+  if (configured) {
+    throw new Error(`Unknown LOG_STORE "${configured}" (expected "vercel-blob" or "fs")`);
+  }
+  return process.env.BLOB_READ_WRITE_TOKEN ? "vercel-blob" : "fs";
+}
+
+export function getLogStore(): LogStore {
+  if (!cached) {
+    cached =
+      resolveLogStoreKind() === "fs"
+        ? createFilesystemStore()
+        : createVercelBlobStore();
+  }
+  return cached;
+}
@@ -0,0 +1,106 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { acquireLease, type LogStore } from "@/lib/logStore";
+import { createFilesystemStore } from "@/lib/logStore/filesystem";
+
+const KEY = "logs/_compaction/2025-10-15.lock";
+const TTL_MS = 60_000;
+
+let dir: string;
+let store: LogStore;
+
+function leaseRecord(owner: string, expiresInMs: number) {
+  const now = Date.now();
+  return JSON.stringify({
+    owner,
+    acquiredAt: new Date(now - TTL_MS).toISOString(),
+    expiresAt: new Date(now + expiresInMs).toISOString(),
+  });
+}
+
+/**
+ * One store per caller. Every caller's first read of `key` is held until all
+ * of them have read it, so all see the same stale lease, and caller i's
+ * deletes of `key` land i * 10 ms late, as a slower run's would.
+ */
+function racingStores(target: LogStore, key: string, callers: number): LogStore[] {
+  const waiting: (() => void)[] = [];
+  return Array.from({ length: callers }, (_, i) => ({
+    ...target,
+    async getText(k: string) {
+      const text = await target.getText(k);
+      if (k === key && waiting.length < callers) {
+        await new Promise<void>((resolve) => {
+          waiting.push(resolve);
+          if (waiting.length === callers) waiting.forEach((release) => release());
+        });
+      }
+      return text;
+    },
+    async delete(keys: string | string[]) {
+      if (keys === key) await new Promise((resolve) => setTimeout(resolve, i * 10));
+      await target.delete(keys);
+    },
+  }));
+}
+
+describe("acquireLease", () => {
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "lease-"));
+    store = createFilesystemStore(dir);
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("is held by one caller until released", async () => {
+    const lease = await acquireLease(store, KEY, TTL_MS);
+    expect(lease).not.toBeNull();
+    expect(await acquireLease(store, KEY, TTL_MS)).toBeNull();
+
+    await lease!.release();
+    expect(await lease!.isHeld()).toBe(false);
+    expect(await acquireLease(store, KEY, TTL_MS)).not.toBeNull();
+  });
+
+  it("lets exactly one of several concurrent runs take over a stale lease", async () => {
+    await store.put(KEY, leaseRecord("crashed", -1_000));
+    const leases = await Promise.all(
+      racingStores(store, KEY, 5).map((racing) => acquireLease(racing, KEY, TTL_MS))
+    );
+
+    const held = leases.filter((lease) => lease !== null);
+    expect(held).toHaveLength(1);
+    expect(await held[0]!.isHeld()).toBe(true);
+    expect(await store.getText(`${KEY}.takeover`)).toBeNull();
+  });
+
+  it("does not delete a lease renewed after it was read as stale", async () => {
+    await store.put(KEY, leaseRecord("fresh", TTL_MS));
+    let reads = 0;
+    const racing: LogStore = {
+      ...store,
+      // The first read still sees the record the fresh lease replaced.
+      getText: async (key) =>
+        key === KEY && reads++ === 0 ? leaseRecord("crashed", -1_000) : store.getText(key),
+    };
+
+    expect(await acquireLease(racing, KEY, TTL_MS)).toBeNull();
+    expect(JSON.parse((await store.getText(KEY))!).owner).toBe("fresh");
+  });
+
+  it("waits for a live takeover claim and clears an abandoned one", async () => {
+    await store.put(KEY, leaseRecord("crashed", -1_000));
+    await store.put(`${KEY}.takeover`, leaseRecord("other", 10_000));
+    expect(await acquireLease(store, KEY, TTL_MS)).toBeNull();
+
+    await store.put(`${KEY}.takeover`, leaseRecord("other", -1_000));
+    expect(await acquireLease(store, KEY, TTL_MS)).toBeNull();
+    expect(await store.getText(`${KEY}.takeover`)).toBeNull();
+    expect(await acquireLease(store, KEY, TTL_MS)).not.toBeNull();
+  });
+});
@@ -0,0 +1,162 @@
+import { LogStoreConflictError } from "./errors";
+import type { LogStore } from "./types";
+
+/**
+ * Expiring lock kept as an object in the log store. Creation relies on
+ * `put(..., { ifAbsent: true })`, so only one caller can hold a key at a
+ * time. A lease whose `expiresAt` has passed is treated as abandoned (for
+ * example a run that hit the platform timeout) and may be taken over.
+ *
+ * The store has no conditional overwrite, so a takeover is serialised by a
+ * short-lived `<key>.takeover` claim, itself created with `ifAbsent`. Only the
+ * claim holder deletes the stale lease, and only after reading it again and
+ * finding the same record; everyone then races for the key with `ifAbsent`
+ * as usual. A claim left behind by a crashed run is cleared once expired.
+ */
+export type Lease = {
+  key: string;
+  owner: string;
+  expiresAt: string;
+  /** Re-reads the lock and reports whether this lease still owns it. */
+  isHeld(): Promise<boolean>;
+  release(): Promise<void>;
+};
+
+const CLAIM_TTL_MS = 30_000;
+
+type LeaseRecord = {
+  owner: string;
+  acquiredAt: string;
+  expiresAt: string;
+};
+
+export async function acquireLease(
+  store: LogStore,
+  key: string,
+  ttlMs: number
+): Promise<Lease | null> {
+  const owner = crypto.randomUUID();
+
+  for (let attempt = 0; attempt < 2; attempt += 1) {
+    const now = Date.now();
+    const record: LeaseRecord = {
+      owner,
+      acquiredAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + ttlMs).toISOString(),
+    };
+
+    try {
+      await store.put(key, JSON.stringify(record), {
+        contentType: "application/json",
+        ifAbsent: true,
+      });
+      return createLease(store, key, record);
+    } catch (error) {
+      if (!(error instanceof LogStoreConflictError)) {
+        throw error;
+      }
+    }
+
+    const current = await readLease(store, key);
+    if (current === undefined) {
+      // Released between our write and read; try again.
+      continue;
+    }
+    if (current && Date.parse(current.expiresAt) > Date.now()) {
+      return null;
+    }
+
+    if (!(await removeStaleLease(store, key, current))) {
+      return null;
+    }
+  }
+
+  return null;
+}
+
+function createLease(store: LogStore, key: string, record: LeaseRecord): Lease {
+  const isHeld = async () => {
+    const current = await readLease(store, key);
+    return Boolean(current && current.owner === record.owner);
+  };
+
+  return {
+    key,
+    owner: record.owner,
+    expiresAt: record.expiresAt,
+    isHeld,
+    async release() {
+      if (await isHeld()) {
+        await store.delete(key);
+      }
+    },
+  };
+}
+
+/**
+ * Deletes the lease at `key` if it is still `stale`. False when another run
+ * is taking it over or has already replaced it.
+ */
+async function removeStaleLease(
+  store: LogStore,
+  key: string,
+  stale: LeaseRecord | null
+): Promise<boolean> {
+  const claimKey = `${key}.takeover`;
+  const now = Date.now();
+  const claim: LeaseRecord = {
+    owner: crypto.randomUUID(),
+    acquiredAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + CLAIM_TTL_MS).toISOString(),
+  };
+  try {
+    await store.put(claimKey, JSON.stringify(claim), {
+      contentType: "application/json",
+      ifAbsent: true,
+    });
+  } catch (error) {
+    if (!(error instanceof LogStoreConflictError)) {
+      throw error;
+    }
+    const other = await readLease(store, claimKey);
+    if (other !== undefined && !(other && Date.parse(other.expiresAt) > Date.now())) {
+      console.warn("[lease] clearing abandoned takeover claim", { key: claimKey });
+      await store.delete(claimKey);
+    }
+    return false;
+  }
+
+  try {
+    const current = await readLease(store, key);
+    if (current === undefined) {
+      return true;
+    }
+    if (JSON.stringify(current) !== JSON.stringify(stale)) {
+      return false;
+    }
+    console.warn("[lease] recovering stale lease", { key, previous: stale });
+    await store.delete(key);
+    return true;
+  } finally {
+    await store.delete(claimKey);
+  }
+}
+
+/** undefined when the lock does not exist, null when it is unreadable. */
+async function readLease(
+  store: LogStore,
+  key: string
+): Promise<LeaseRecord | null | undefined> {
+  const raw = await store.getText(key);
+  if (raw === null) {
+    return undefined;
+  }
+  try {
+    const parsed = JSON.parse(raw) as Partial<LeaseRecord>;
+    return typeof parsed.owner === "string" && typeof parsed.expiresAt === "string"
+      ? (parsed as LeaseRecord)
+      : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,47 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+/**
+ * HMAC-signed download links for backends without native presigned URLs.
+ * Links point at /api/admin/logs/download, which checks the signature and
+ * streams the object. Signed with LOG_SIGNING_SECRET (or LOG_ADMIN_KEY).
+ */
+
+export const SIGNED_DOWNLOAD_PATH = "/api/admin/logs/download";
+
+function signingSecret(): string {
+  const secret = process.env.LOG_SIGNING_SECRET || process.env.LOG_ADMIN_KEY;
+  if (!secret) {
+    throw new Error("Set LOG_SIGNING_SECRET or LOG_ADMIN_KEY to issue signed log links");
+  }
+  return secret;
+}
+
+function signature(key: string, expires: number): string {
+  return createHmac("sha256", signingSecret())
+    .update(`${key}\n${expires}`)
+    .digest("base64url");
+}
+
+export function createSignedDownloadPath(key: string, expiresInSeconds: number): string {
+  const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+  const params = new URLSearchParams({
+    key,
+    expires: String(expires),
+    sig: signature(key, expires),
+  });
+  return `${SIGNED_DOWNLOAD_PATH}?${params.toString()}`;
+}
+
+export function verifySignedDownload(params: URLSearchParams): string | null {
+  const key = params.get("key");
+  const expires = Number(params.get("expires"));
+  const sig = params.get("sig");
+  if (!key || !sig || !Number.isFinite(expires) || expires * 1000 < Date.now()) {
+    return null;
+  }
+  const expected = Buffer.from(signature(key, expires));
+  const actual = Buffer.from(sig);
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+    ? key
+    : null;
+}
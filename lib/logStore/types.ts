@@ -0,0 +1,45 @@
+export type LogStoreKind = "vercel-blob" | "fs";
+
+export type LogObject = {
+  key: string;
+  size: number;
+  uploadedAt: Date;
+};
+
+export type LogListPage = {
+  objects: LogObject[];
+  /** Opaque cursor for the next page, or null when the listing is complete. */
+  cursor: string | null;
+};
+
+export type LogListOptions = {
+  cursor?: string | null;
+  limit?: number;
+};
+
+export type LogPutOptions = {
+  contentType?: string;
+  /** Fail with LogStoreConflictError instead of overwriting an existing key. */
+  ifAbsent?: boolean;
+};
+
+/**
+ * Minimal object store used by the logging pipeline. Keys are slash separated
+ * paths such as `logs/2025-01-31/12-00-00-000.turn.json`.
+ */
+export interface LogStore {
+  readonly kind: LogStoreKind;
+  put(key: string, body: string | Uint8Array, options?: LogPutOptions): Promise<void>;
+  /** Returns the raw bytes for `key`, or null if it does not exist. */
+  get(key: string): Promise<Uint8Array | null>;
+  /** Returns the UTF-8 contents of `key`, or null if it does not exist. */
+  getText(key: string): Promise<string | null>;
+  /** Lists objects whose key starts with `prefix`, ordered by key. */
+  list(prefix: string, options?: LogListOptions): Promise<LogListPage>;
+  delete(keys: string | string[]): Promise<void>;
+  /**
+   * A URL that lets the holder download `key` without other credentials
+   * until it expires. May be relative to this app's origin.
+   */
+  signedUrl(key: string, expiresInSeconds: number): Promise<string>;
+}
@@ -0,0 +1,123 @@
+import {
+  BlobError,
+  BlobNotFoundError,
+  BlobPreconditionFailedError,
+  del,
+  get as getBlob,
+  issueSignedToken,
+  list,
+  presignUrl,
+  put,
+} from "@vercel/blob";
+import { LogStoreConflictError } from "./errors";
+import type {
+  LogListOptions,
+  LogListPage,
+  LogPutOptions,
+  LogStore,
+} from "./types";
+
+type BlobAccess = "public" | "private";
+
+/**
+ * Vercel Blob backend. Authenticates with BLOB_READ_WRITE_TOKEN.
+ *
+ * Objects are written private unless LOG_BLOB_ACCESS=public. Reads go through
+ * the authenticated SDK and fall back to public access for objects written
+ * before logs were made private.
+ */
+export function createVercelBlobStore(
+  token = process.env.BLOB_READ_WRITE_TOKEN,
+  access: BlobAccess = process.env.LOG_BLOB_ACCESS?.trim() === "public" ? "public" : "private"
+): LogStore {
+  const readOrder: BlobAccess[] = access === "private" ? ["private", "public"] : ["public"];
+
+  const get = async (key: string): Promise<Uint8Array | null> => {
+    for (const readAccess of readOrder) {
+      let result;
+      try {
+        result = await getBlob(key, { access: readAccess, token, useCache: false });
+      } catch (error) {
+        if (error instanceof BlobNotFoundError) continue;
+        throw error;
+      }
+      if (result?.statusCode === 200) {
+        return new Uint8Array(await new Response(result.stream).arrayBuffer());
+      }
+    }
+    return null;
+  };
+
+  return {
+    kind: "vercel-blob",
+
+    async put(key: string, body: string | Uint8Array, options?: LogPutOptions) {
+      try {
+        await put(key, typeof body === "string" ? body : Buffer.from(body), {
+          access,
+          addRandomSuffix: false,
+          allowOverwrite: !options?.ifAbsent,
+          contentType: options?.contentType,
+          token,
+        });
+      } catch (error) {
+        if (
+          options?.ifAbsent &&
+          (error instanceof BlobPreconditionFailedError ||
+            (error instanceof BlobError && /already exists/i.test(error.message)))
+        ) {
+          throw new LogStoreConflictError(key);
+        }
+        throw error;
+      }
+    },
+
+    get,
+
+    async getText(key: string) {
+      const bytes = await get(key);
+      return bytes ? new TextDecoder().decode(bytes) : null;
+    },
+
+    async list(prefix: string, options?: LogListOptions): Promise<LogListPage> {
+      const result = await list({
+        prefix,
+        cursor: options?.cursor ?? undefined,
+        limit: options?.limit,
+        token,
+      });
+      return {
+        objects: result.blobs.map((b) => ({
+          key: b.pathname,
+          size: b.size,
+          uploadedAt: b.uploadedAt,
+        })),
+        cursor: result.hasMore ? result.cursor ?? null : null,
+      };
+    },
+
+    async signedUrl(key: string, expiresInSeconds: number) {
+      const validUntil = Date.now() + expiresInSeconds * 1000;
+      const signed = await issueSignedToken({
+        pathname: key,
+        operations: ["get"],
+        validUntil,
+        token,
+      });
+      const { presignedUrl } = await presignUrl(signed, {
+        operation: "get",
+        pathname: key,
+        validUntil,
+        access,
+      });
+      return presignedUrl;
+    },
+
+    async delete(keys: string | string[]) {
+      if (Array.isArray(keys) && keys.length === 0) {
+        return;
+      }
+      await del(keys, { token });
+    },
+  };
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { redactFields, redactText } from "@/lib/redaction";
+
+// Messages as field workers write them: Bangla and Latin digits, mixed scripts.
+const REDACTED: [string, string, string][] = [
+  ["phone, Latin digits", "আমার নম্বর 01712345678 এ ফোন দিন", "আমার নম্বর [phone] এ ফোন দিন"],
+  ["phone, Bangla digits", "নম্বর ০১৭১২৩৪৫৬৭৮", "নম্বর [phone]"],
+  ["phone, 3-4-4 grouping", "কল করুন 017 1234 5678 নম্বরে", "কল করুন [phone] নম্বরে"],
+  ["phone, 5-6 grouping", "বিকাশ 01712-345678", "বিকাশ [phone]"],
+  ["phone, country code", "+880 1712-345-678 তে", "[phone] তে"],
+  ["phone, dotted Bangla", "০১৭.১২৩৪.৫৬৭৮", "[phone]"],
+  ["email", "ইমেইল rahim.uddin@example.com দিলাম", "ইমেইল [email] দিলাম"],
+  ["nid, 10 digits", "এনআইডি ১২৩৪৫৬৭৮৯০", "এনআইডি [nid]"],
+  ["nid, 17 digits", "NID 19901234567890123", "NID [nid]"],
+  ["coords after lat/lon", "lat 23.8103, lon 90.4125", "lat [coords]"],
+  ["coords after GPS", "GPS: 23.8103, 90.4125 এ আছি", "GPS: [coords] এ আছি"],
+  ["coords after অবস্থান", "আমার অবস্থান ২৩.৮১০৩, ৯০.৪১২৫", "আমার অবস্থান [coords]"],
+  ["degree notation", "23.81° N, 90.41° E তে জমি", "[coords] তে জমি"],
+  ["degree signs without hemisphere", "২৩.৮১°, ৯০.৪১°", "[coords]"],
+];
+
+const KEPT: [string, string][] = [
+  ["price and quantity", "Price 12.345, 67.890"],
+  ["Bangla prices", "দাম ১২.৫০০, ৬৭.২৫০ টাকা"],
+  ["yield figures", "ফলন 23.810, 90.412 মণ"],
+  ["short numbers", "৩ বিঘা জমিতে ১২০ কেজি সার"],
+  ["implausible coordinates", "lat 123.456, 200.123"],
+  ["word containing lat", "flat 23.8103, 90.4125"],
+  ["not a mobile prefix", "01212345678"],
+];
+
+describe("redactText", () => {
+  it.each(REDACTED)("redacts %s", (_, input, expected) => {
+    expect(redactText(input).text).toBe(expected);
+  });
+
+  it.each(KEPT)("keeps %s", (_, input) => {
+    expect(redactText(input).text).toBe(input);
+  });
+
+  it("counts matches per rule", () => {
+    const { counts } = redactText("01712345678 বা ০১৮১২৩৪৫৬৭৮, a@b.co");
+    expect(counts).toEqual({ phone: 2, email: 1 });
+  });
+
+  it("applies only the selected rules", () => {
+    expect(redactText("a@b.co 01712345678", ["phone"]).text).toBe("a@b.co [phone]");
+  });
+});
+
+describe("redactFields", () => {
+  it("walks meta and reports matches by path", () => {
+    const { value, redactions } = redactFields(
+      {
+        text: "hi",
+        meta: { note: "ফোন 01712345678", tags: ["a@b.co", 3], nested: { ok: true } },
+      },
+      ["text", "meta"]
+    );
+    expect(value.meta).toEqual({
+      note: "ফোন [phone]",
+      tags: ["[email]", 3],
+      nested: { ok: true },
+    });
+    expect(redactions).toEqual([
+      { field: "meta.note", rule: "phone", count: 1 },
+      { field: "meta.tags.0", rule: "email", count: 1 },
+    ]);
+  });
+
+  it("leaves values untouched when redaction is off", () => {
+    const input = { text: "01712345678" };
+    expect(redactFields(input, ["text"], []).value).toBe(input);
+  });
+});
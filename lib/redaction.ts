@@ -0,0 +1,157 @@
+/**
+ * PII redaction applied to conversation text before it is stored.
+ *
+ * Rules match both Latin (0-9) and Bangla (০-৯) digits:
+ *  - email:  addresses
+ *  - coords: degree notation, and decimal latitude/longitude pairs that
+ *            follow a word such as "lat", "GPS" or "অবস্থান" (a bare pair
+ *            like a price and a quantity is left alone)
+ *  - phone:  Bangladeshi mobile numbers, with or without +88 / 88, written
+ *            with spaces, dots or dashes anywhere between the digits
+ *  - nid:    10, 13 or 17 digit national ID numbers
+ *
+ * Matches are replaced with `[<rule>]`. LOG_REDACTION_RULES selects the rules
+ * (comma separated, default all); LOG_REDACTION=off disables redaction.
+ */
+
+export const REDACTION_RULES = ["email", "coords", "phone", "nid"] as const;
+
+export type RedactionRule = (typeof REDACTION_RULES)[number];
+
+export type Redaction = {
+  field: string;
+  rule: RedactionRule;
+  count: number;
+};
+
+const D = "[0-9\\u09E6-\\u09EF]";
+const ZERO = "[0০]";
+const ONE = "[1১]";
+const EIGHT = "[8৮]";
+const OPERATOR = "[3-9৩-৯]";
+const SEP = "[ .-]?";
+const NOT_DIGIT = "[^0-9\\u09E6-\\u09EF]";
+/** Words that mark a following decimal pair as a position. */
+const COORD_CONTEXT = [
+  "\\b(?:lat|latitude|lon|lng|long|longitude|gps|coords?|coordinates|location)",
+  "অবস্থান",
+  "অক্ষাংশ",
+  "দ্রাঘিমাংশ",
+  "স্থানাঙ্ক",
+].join("|");
+
+const PATTERNS: Record<RedactionRule, RegExp> = {
+  email: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  coords: new RegExp(
+    [
+      `(?<=(?:${COORD_CONTEXT})${NOT_DIGIT}{0,24})(?<!${D})[-+]?${D}{1,2}\\.${D}{3,}` +
+        `\\s*[,;/]?\\s*(?:(?:lon|lng|long|longitude|দ্রাঘিমাংশ)\\s*[:=]?\\s*)?` +
+        `[-+]?${D}{1,3}\\.${D}{3,}(?!${D})`,
+      `${D}{1,2}(?:\\.${D}+)?\\s*°\\s*[NS]?[,\\s]+${D}{1,3}(?:\\.${D}+)?\\s*°\\s*[EW]?`,
+    ].join("|"),
+    "giu"
+  ),
+  phone: new RegExp(
+    `(?<!${D})(?:\\+?${EIGHT}${EIGHT}${SEP})?${ZERO}${SEP}${ONE}${SEP}${OPERATOR}(?:${SEP}${D}){8}(?!${D})`,
+    "gu"
+  ),
+  nid: new RegExp(`(?<!${D})(?:${D}{17}|${D}{13}|${D}{10})(?!${D})`, "gu"),
+};
+
+export function resolveRedactionRules(): RedactionRule[] {
+  if (process.env.LOG_REDACTION?.trim().toLowerCase() === "off") {
+    return [];
+  }
+  const configured = process.env.LOG_REDACTION_RULES?.split(",")
+    .map((r) => r.trim().toLowerCase())
+    .filter(Boolean);
+  if (!configured || configured.length === 0) {
+    return [...REDACTION_RULES];
+  }
+  return REDACTION_RULES.filter((r) => configured.includes(r));
+}
+
+export function redactText(
+  text: string,
+  rules: readonly RedactionRule[] = REDACTION_RULES
+): { text: string; counts: Partial<Record<RedactionRule, number>> } {
+  const counts: Partial<Record<RedactionRule, number>> = {};
+  let out = text;
+  // Fixed order so an email's digits are never re-read as a phone number.
+  for (const rule of REDACTION_RULES) {
+    if (!rules.includes(rule)) continue;
+    out = out.replace(PATTERNS[rule], (match) => {
+      if (rule === "coords" && !isPlausibleCoordinate(match)) {
+        return match;
+      }
+      counts[rule] = (counts[rule] ?? 0) + 1;
+      return `[${rule}]`;
+    });
+  }
+  return { text: out, counts };
+}
+
+/**
+ * Redacts the named fields of `value` and reports what was masked. Object
+ * and array fields (such as `meta`) are walked, and their strings reported
+ * by path, e.g. `meta.note` or `meta.tags.0`.
+ */
+export function redactFields<T extends Record<string, unknown>>(
+  value: T,
+  fields: readonly (keyof T & string)[],
+  rules: readonly RedactionRule[] = resolveRedactionRules()
+): { value: T; redactions: Redaction[] } {
+  const next: Record<string, unknown> = { ...value };
+  const redactions: Redaction[] = [];
+  if (rules.length === 0) {
+    return { value, redactions };
+  }
+  for (const field of fields) {
+    next[field] = redactValue(value[field], field, rules, redactions);
+  }
+  return { value: next as T, redactions };
+}
+
+function redactValue(
+  value: unknown,
+  path: string,
+  rules: readonly RedactionRule[],
+  redactions: Redaction[]
+): unknown {
+  if (typeof value === "string") {
+    if (!value) return value;
+    const { text, counts } = redactText(value, rules);
+    for (const rule of REDACTION_RULES) {
+      const count = counts[rule];
+      if (count) redactions.push({ field: path, rule, count });
+    }
+    return text;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, i) => redactValue(item, `${path}.${i}`, rules, redactions));
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        redactValue(item, `${path}.${key}`, rules, redactions),
+      ])
+    );
+  }
+  return value;
+}
+
+function toLatinDigits(text: string): string {
+  return text.replace(/[০-৯]/g, (d) =>
+    String(d.charCodeAt(0) - 0x09e6)
+  );
+}
+
+function isPlausibleCoordinate(match: string): boolean {
+  const numbers = toLatinDigits(match).match(/[-+]?\d+(?:\.\d+)?/g);
+  if (!numbers || numbers.length < 2) {
+    return false;
+  }
+  const [lat, lon] = numbers.map(Number);
+  return Math.abs(lat) <= 90 && Math.abs(lon) <= 180;
+}
@@ -0,0 +1,104 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { compactDay } from "@/lib/compaction";
+import { eraseSession } from "@/lib/erasure";
+import { ingestRecord } from "@/lib/ingest";
+import { readNdjson } from "@/lib/logFiles";
+import { buildLogRecord, validateLogInput } from "@/lib/logSchema";
+import { acquireLease, type LogStore } from "@/lib/logStore";
+import { createFilesystemStore } from "@/lib/logStore/filesystem";
+import { applyRetention, type RetentionPolicy } from "@/lib/retention";
+import { monthlyKey, rollupMonth } from "@/lib/rollup";
+
+// 30 days back from 2025-02-10: 2025-01-02 has expired, 2025-01-20 has not.
+const PURGE: RetentionPolicy = { days: 30, mode: "purge" };
+const NOW = new Date("2025-02-10T03:00:00.000Z");
+
+let dir: string;
+let store: LogStore;
+
+async function logEvent(ts: string, sessionId: string) {
+  const input = validateLogInput({ type: "event", text: "হ্যালো" });
+  if (!input.ok) throw new Error("invalid test input");
+  const record = buildLogRecord(input.value, {
+    event_id: crypto.randomUUID(),
+    ts,
+    ua: "test",
+    redactions: [],
+    session_id: sessionId,
+  });
+  await ingestRecord(store, record);
+}
+
+async function rolledUpSessions(): Promise<string[] | null> {
+  const text = await readNdjson(store, monthlyKey("2025-01"));
+  return text?.split("\n").filter(Boolean).map((line) => JSON.parse(line).session_id) ?? null;
+}
+
+async function indexedDays(): Promise<string[]> {
+  return (await store.list("logs/_subjects/")).objects.map((o) => o.key.slice(-10));
+}
+
+describe("applyRetention", () => {
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), "retention-"));
+    store = createFilesystemStore(dir);
+    await logEvent("2025-01-02T09:00:00.000Z", "s1");
+    await logEvent("2025-01-20T09:00:00.000Z", "s2");
+    await compactDay(store, { day: "2025-01-02" });
+    await compactDay(store, { day: "2025-01-20" });
+    await rollupMonth(store, "2025-01");
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("rebuilds the monthly rollup without the expired day", async () => {
+    const result = await applyRetention(store, PURGE, { now: NOW });
+
+    expect(result.days.map((d) => d.day)).toEqual(["2025-01-02"]);
+    expect(result).toMatchObject({ rebuiltMonths: ["2025-01"], busyMonths: [], months: [] });
+    expect(await rolledUpSessions()).toEqual(["s2"]);
+    expect(await indexedDays()).toEqual(["2025-01-20"]);
+
+    const receipt = await eraseSession(store, "s1");
+    expect(receipt).toMatchObject({ complete: true, records: 0 });
+    expect(await rolledUpSessions()).toEqual(["s2"]);
+  });
+
+  it("keeps the expired day indexed while its rollup is locked", async () => {
+    const lease = await acquireLease(store, "logs/monthly/2025-01.lock", 60_000);
+    const busy = await applyRetention(store, PURGE, { now: NOW });
+
+    expect(busy).toMatchObject({ rebuiltMonths: [], busyMonths: ["2025-01"] });
+    expect(await rolledUpSessions()).toEqual(["s1", "s2"]);
+    expect(await indexedDays()).toEqual(["2025-01-02", "2025-01-20"]);
+
+    await lease!.release();
+    const receipt = await eraseSession(store, "s1");
+    expect(receipt).toMatchObject({ complete: true, rebuiltMonths: ["2025-01"] });
+    expect(await rolledUpSessions()).toEqual(["s2"]);
+  });
+
+  it("finishes a locked rollup on the next run", async () => {
+    const lease = await acquireLease(store, "logs/monthly/2025-01.lock", 60_000);
+    await applyRetention(store, PURGE, { now: NOW });
+    await lease!.release();
+
+    const next = await applyRetention(store, PURGE, { now: NOW });
+    expect(next).toMatchObject({ days: [], rebuiltMonths: ["2025-01"], busyMonths: [] });
+    expect(await rolledUpSessions()).toEqual(["s2"]);
+    expect(await indexedDays()).toEqual(["2025-01-20"]);
+  });
+
+  it("removes the rollup once the whole month has expired", async () => {
+    const result = await applyRetention(store, PURGE, { now: new Date("2025-03-20T03:00:00Z") });
+
+    expect(result).toMatchObject({ months: ["2025-01"], rebuiltMonths: [] });
+    expect(await rolledUpSessions()).toBeNull();
+    expect(await indexedDays()).toEqual([]);
+  });
+});
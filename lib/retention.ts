@@ -0,0 +1,453 @@
+import type { LogStore } from "@/lib/logStore";
+import { daysInRange, discardCheckpoint, manifestKey, withDayLock } from "@/lib/compaction";
+import {
+  dailyKey,
+  encodeNdjson,
+  findDailyFile,
+  ndjsonContentType,
+  readNdjson,
+} from "@/lib/logFiles";
+import {
+  monthlyKey,
+  monthlyManifestKey,
+  readRollupManifest,
+  rollupMonth,
+} from "@/lib/rollup";
+import { summariseLatency, type LatencySummary } from "@/lib/latency";
+import { summariseFeedback } from "@/lib/feedback";
+import { attachmentDayPrefix, listAttachmentKeys } from "@/lib/attachments";
+
+/**
+ * Retention: conversation text is kept for LOG_RETENTION_DAYS (default 90)
+ * and then removed. Before a day is removed its records are reduced to a
+ * small aggregate (`logs/aggregates/<day>.json`: counts by type and role,
+ * redaction counts, distinct sessions, latency percentiles, answer ratings)
+ * which is kept indefinitely.
+ *
+ * LOG_RETENTION_MODE=archive copies the day's records to
+ * `archive/logs/<day>.ndjson.gz` (and archived attachments to
+ * `archive/attachments/<day>/`) before removing them, so the archive can be
+ * given its own lifecycle; the default `purge` keeps nothing. Archived data
+ * is still personal data: the erasure index entries of archived days are
+ * kept so that erasure can find and clean the archive.
+ *
+ * Per day this removes the compacted file in either format, its manifest,
+ * leftover per-event objects, archived attachments, any compaction
+ * checkpoint, idempotency markers and (when nothing was archived) erasure
+ * index entries. Monthly rollups still holding an expired day are rebuilt
+ * from the daily files that remain, and removed once the whole month has
+ * expired. A rollup locked by another run is rebuilt by the next run; until
+ * then its expired days keep their erasure index entries, so erasure can
+ * still find and rebuild it. Each run writes a report to `logs/_retention/`.
+ */
+
+const DEFAULT_RETENTION_DAYS = 90;
+const MAX_DAYS_PER_RUN = 366;
+const DAY_KEY = /^logs\/(\d{4}-\d{2}-\d{2})[/.]/;
+
+export type RetentionMode = "purge" | "archive";
+
+export type RetentionPolicy = {
+  /** Days of conversation text to keep, counting back from today (UTC). */
+  days: number;
+  mode: RetentionMode;
+};
+
+export type RetentionAggregate = {
+  day: string;
+  createdAt: string;
+  records: number;
+  turns: number;
+  events: number;
+  byRole: Record<string, number>;
+  feedback: { up: number; down: number; comments: number };
+  redactions: Record<string, number>;
+  sessions: number;
+  /** Lines that could not be parsed and were not counted. */
+  unreadable: number;
+  latency: LatencySummary;
+};
+
+export type RetentionDay = {
+  day: string;
+  aggregateKey: string;
+  archiveKey?: string;
+  /** Compacted files and manifests that were deleted. */
+  removed: string[];
+  /** Per-event objects and markers deleted for the day. */
+  removedObjects: number;
+  /** Attachment objects removed from `attachments/<day>/`. */
+  attachments: number;
+};
+
+export type RetentionResult = {
+  ok: boolean;
+  message?: string;
+  policy: RetentionPolicy | null;
+  /** Days before this one have expired. */
+  cutoff: string | null;
+  reportKey: string | null;
+  days: RetentionDay[];
+  /** Monthly rollups removed because the whole month expired. */
+  months: string[];
+  /** Monthly rollups rebuilt without their expired days. */
+  rebuiltMonths: string[];
+  /** Monthly rollups still holding expired days because another run held their lock. */
+  busyMonths: string[];
+  /** Expired days skipped because compaction held their lock. */
+  busyDays: string[];
+  /** False when the time budget ran out before every expired day was handled. */
+  done: boolean;
+};
+
+export const aggregateKey = (day: string) => `logs/aggregates/${day}.json`;
+export const ARCHIVE_PREFIX = "archive/";
+export const archiveKey = (day: string) => `${ARCHIVE_PREFIX}${dailyKey(day, "gzip")}`;
+export const archiveMonthlyKey = (month: string) => `${ARCHIVE_PREFIX}${monthlyKey(month)}`;
+const SUBJECT_PREFIX = "logs/_subjects/";
+const REPORT_PREFIX = "logs/_retention/";
+
+/**
+ * LOG_RETENTION_DAYS=<n> | off, LOG_RETENTION_MODE=purge | archive.
+ * Returns null when retention is switched off.
+ */
+export function resolveRetentionPolicy(): RetentionPolicy | null {
+  const raw = process.env.LOG_RETENTION_DAYS?.trim().toLowerCase();
+  if (raw === "off") {
+    return null;
+  }
+  const configured = Number(raw);
+  const days =
+    raw && Number.isInteger(configured) && configured > 0
+      ? configured
+      : DEFAULT_RETENTION_DAYS;
+  const mode =
+    process.env.LOG_RETENTION_MODE?.trim().toLowerCase() === "archive" ? "archive" : "purge";
+  return { days, mode };
+}
+
+export function retentionCutoff(policy: RetentionPolicy, now = new Date()): string {
+  return shiftDay(now.toISOString().slice(0, 10), -policy.days);
+}
+
+export async function applyRetention(
+  store: LogStore,
+  policy: RetentionPolicy | null = resolveRetentionPolicy(),
+  { deadline = Infinity, now = new Date() }: { deadline?: number; now?: Date } = {}
+): Promise<RetentionResult> {
+  if (!policy) {
+    return {
+      ok: true,
+      message: "Retention disabled",
+      policy,
+      cutoff: null,
+      reportKey: null,
+      days: [],
+      months: [],
+      rebuiltMonths: [],
+      busyMonths: [],
+      busyDays: [],
+      done: true,
+    };
+  }
+
+  const cutoff = retentionCutoff(policy, now);
+  const candidates = await expiredDays(store, cutoff);
+
+  const days: RetentionDay[] = [];
+  const busyDays: string[] = [];
+  let done = true;
+  for (const day of candidates) {
+    if (days.length + busyDays.length > 0 && Date.now() >= deadline) {
+      done = false;
+      break;
+    }
+    const result = await withDayLock(store, day, () => expireDay(store, day, policy.mode));
+    if (result === null) {
+      busyDays.push(day);
+    } else if (result) {
+      days.push(result);
+    }
+  }
+
+  const { expired: months, rebuilt: rebuiltMonths, busy: busyMonths, released } =
+    await refreshMonths(store, cutoff, policy.mode);
+  // Archived days keep their index entries so erasure can still reach them,
+  // as do days a busy rollup still holds.
+  const purged = days
+    .filter((d) => !d.archiveKey && !(policy.mode === "archive" && d.attachments > 0))
+    .map((d) => d.day)
+    .filter((day) => !busyMonths.includes(day.slice(0, 7)));
+  // Days an earlier run left in a busy rollup; in archive mode they were archived.
+  if (policy.mode === "purge") {
+    purged.push(...released);
+  }
+  if (purged.length > 0) {
+    await purgeSubjectIndex(store, new Set(purged));
+  }
+
+  let reportKey: string | null = null;
+  if (days.length > 0 || months.length > 0 || rebuiltMonths.length > 0) {
+    reportKey = `${REPORT_PREFIX}${now.toISOString().slice(0, 10)}-${crypto.randomUUID()}.json`;
+    const report = {
+      ranAt: now.toISOString(),
+      policy,
+      cutoff,
+      days,
+      months,
+      rebuiltMonths,
+      busyMonths,
+      busyDays,
+    };
+    await store.put(reportKey, JSON.stringify(report, null, 2), {
+      contentType: "application/json",
+    });
+  }
+
+  return {
+    ok: true,
+    policy,
+    cutoff,
+    reportKey,
+    days,
+    months,
+    rebuiltMonths,
+    busyMonths,
+    busyDays,
+    done,
+  };
+}
+
+/**
+ * Expired days that may still hold data, oldest first. Day keys sort before
+ * every other prefix under `logs/`, so the first listed key is the oldest day.
+ */
+async function expiredDays(store: LogStore, cutoff: string): Promise<string[]> {
+  const first = (await store.list("logs/", { limit: 1 })).objects[0];
+  const oldest = first ? DAY_KEY.exec(first.key)?.[1] : undefined;
+  if (!oldest || oldest >= cutoff) {
+    return [];
+  }
+  const last = shiftDay(cutoff, -1);
+  const capped = shiftDay(oldest, MAX_DAYS_PER_RUN - 1);
+  return daysInRange(oldest, capped < last ? capped : last);
+}
+
+/** Aggregates, optionally archives and then removes one day; false if it was empty. */
+async function expireDay(
+  store: LogStore,
+  day: string,
+  mode: RetentionMode
+): Promise<RetentionDay | false> {
+  const compacted = [dailyKey(day, "gzip"), dailyKey(day, "none")];
+  const lines: string[] = [];
+  const removed: string[] = [];
+  for (const key of compacted) {
+    const text = await readNdjson(store, key);
+    if (text === null) continue;
+    lines.push(...text.split("\n").filter(Boolean));
+    removed.push(key);
+  }
+  if ((await store.getText(manifestKey(day))) !== null) {
+    removed.push(manifestKey(day));
+  }
+
+  const rawKeys = await listAll(store, `logs/${day}/`);
+  for (const key of rawKeys) {
+    if (!key.endsWith(".json")) continue;
+    const text = await store.getText(key);
+    if (text?.trim()) lines.push(text.trim());
+  }
+  const markerKeys = await listAll(store, `logs/_idempotency/${day}/`);
+  const attachmentKeys = await listAttachmentKeys(store, attachmentDayPrefix(day));
+
+  if (
+    removed.length === 0 &&
+    rawKeys.length === 0 &&
+    markerKeys.length === 0 &&
+    attachmentKeys.length === 0
+  ) {
+    return false;
+  }
+
+  const aggregate = summarise(day, lines);
+  await store.put(aggregateKey(day), JSON.stringify(aggregate, null, 2), {
+    contentType: "application/json",
+  });
+
+  let archived: string | undefined;
+  if (mode === "archive" && lines.length > 0) {
+    archived = archiveKey(day);
+    const body = lines.map((line) => line + "\n").join("");
+    await store.put(archived, encodeNdjson(body, "gzip"), {
+      contentType: ndjsonContentType("gzip"),
+    });
+  }
+
+  if (mode === "archive") {
+    for (const key of attachmentKeys) {
+      const bytes = await store.get(key);
+      if (bytes) await store.put(`${ARCHIVE_PREFIX}${key}`, bytes);
+    }
+  }
+
+  await discardCheckpoint(store, day);
+  await store.delete([...removed, ...rawKeys, ...markerKeys, ...attachmentKeys]);
+
+  return {
+    day,
+    aggregateKey: aggregateKey(day),
+    ...(archived ? { archiveKey: archived } : {}),
+    removed,
+    removedObjects: rawKeys.length + markerKeys.length,
+    attachments: attachmentKeys.length,
+  };
+}
+
+type MonthsResult = {
+  expired: string[];
+  rebuilt: string[];
+  busy: string[];
+  /** Expired days no monthly rollup holds any more. */
+  released: string[];
+};
+
+/**
+ * Removes monthly rollups whose last day is before the cutoff and rebuilds
+ * those that still hold an expired day, which then drops out because its
+ * daily file is gone. Rollups without a manifest are rebuilt once their
+ * month has started expiring.
+ */
+async function refreshMonths(
+  store: LogStore,
+  cutoff: string,
+  mode: RetentionMode
+): Promise<MonthsResult> {
+  const result: MonthsResult = { expired: [], rebuilt: [], busy: [], released: [] };
+  for (const key of await listAll(store, "logs/monthly/")) {
+    const m = /^logs\/monthly\/(\d{4}-\d{2})\.ndjson\.gz$/.exec(key);
+    if (!m) continue;
+    const month = m[1];
+    const manifest = await readRollupManifest(store, month);
+    const expiredDays = (manifest?.days ?? []).map((d) => d.day).filter((day) => day < cutoff);
+
+    if (lastDayOfMonth(month) >= cutoff) {
+      const stale = manifest ? expiredDays.length > 0 : `${month}-01` < cutoff;
+      if (!stale) continue;
+      const rollup = await rollupMonth(store, month);
+      if (rollup.inProgress || (rollup.written && !rollup.verified)) {
+        result.busy.push(month);
+        continue;
+      }
+      result.rebuilt.push(month);
+      result.released.push(...(await daysWithoutFiles(store, expiredDays)));
+      continue;
+    }
+
+    if (mode === "archive") {
+      const bytes = await store.get(monthlyKey(month));
+      if (bytes) {
+        await store.put(archiveMonthlyKey(month), bytes, {
+          contentType: ndjsonContentType("gzip"),
+        });
+      }
+    }
+    await store.delete([monthlyKey(month), monthlyManifestKey(month)]);
+    result.expired.push(month);
+    result.released.push(...(await daysWithoutFiles(store, expiredDays)));
+  }
+  return result;
+}
+
+async function daysWithoutFiles(store: LogStore, days: string[]): Promise<string[]> {
+  const gone: string[] = [];
+  for (const day of days) {
+    if (!(await findDailyFile(store, day))) gone.push(day);
+  }
+  return gone;
+}
+
+/** Drops erasure index entries that point at days that no longer hold records. */
+async function purgeSubjectIndex(store: LogStore, days: Set<string>): Promise<void> {
+  const stale = (await listAll(store, SUBJECT_PREFIX)).filter((key) =>
+    days.has(key.slice(key.lastIndexOf("/") + 1))
+  );
+  if (stale.length > 0) {
+    await store.delete(stale);
+  }
+}
+
+function summarise(day: string, lines: string[]): RetentionAggregate {
+  const result: RetentionAggregate = {
+    day,
+    createdAt: new Date().toISOString(),
+    records: 0,
+    turns: 0,
+    events: 0,
+    byRole: {},
+    feedback: { up: 0, down: 0, comments: 0 },
+    redactions: {},
+    sessions: 0,
+    unreadable: 0,
+    latency: summariseLatency(lines),
+  };
+  const { up, down, comments } = summariseFeedback(lines);
+  result.feedback = { up, down, comments };
+  const sessions = new Set<string>();
+  for (const line of lines) {
+    let record: {
+      type?: unknown;
+      role?: unknown;
+      session_id?: unknown;
+      redactions?: unknown;
+    };
+    try {
+      record = JSON.parse(line);
+    } catch {
+      result.unreadable += 1;
+      continue;
+    }
+    result.records += 1;
+    if (record.type === "turn") {
+      result.turns += 1;
+    } else if (record.type !== "feedback") {
+      result.events += 1;
+      const role = typeof record.role === "string" ? record.role : "user";
+      result.byRole[role] = (result.byRole[role] ?? 0) + 1;
+    }
+    if (typeof record.session_id === "string" && record.session_id) {
+      sessions.add(record.session_id);
+    }
+    if (Array.isArray(record.redactions)) {
+      for (const r of record.redactions as { rule?: unknown; count?: unknown }[]) {
+        if (typeof r?.rule === "string" && typeof r.count === "number") {
+          result.redactions[r.rule] = (result.redactions[r.rule] ?? 0) + r.count;
+        }
+      }
+    }
+  }
+  result.sessions = sessions.size;
+  return result;
+}
+
+async function listAll(store: LogStore, prefix: string): Promise<string[]> {
+  const keys: string[] = [];
+  let cursor: string | null = null;
+  do {
+    const page = await store.list(prefix, { cursor });
+    keys.push(...page.objects.map((o) => o.key));
+    cursor = page.cursor;
+  } while (cursor);
+  return keys;
+}
+
+function shiftDay(day: string, by: number): string {
+  const d = new Date(`${day}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + by);
+  return d.toISOString().slice(0, 10);
+}
+
+function lastDayOfMonth(month: string): string {
+  const [year, m] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, m, 0)).toISOString().slice(0, 10);
+}
@@ -0,0 +1,185 @@
+import { acquireLease, type LogStore } from "@/lib/logStore";
+import { daysInRange, uncompactedDays } from "@/lib/compaction";
+import {
+  describe,
+  encodeNdjson,
+  findDailyFile,
+  matches,
+  ndjsonContentType,
+  readNdjson,
+  type ContentSummary,
+} from "@/lib/logFiles";
+
+/**
+ * Monthly rollup: concatenates a month's daily compacted files
+ * (`logs/<day>.ndjson[.gz]`) into `logs/monthly/<month>.ndjson.gz` with a
+ * manifest next to it. Daily files are left in place. Re-running a month
+ * rebuilds the archive from whatever daily files exist at the time, and
+ * removes it once none are left (their days expired or were erased).
+ */
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+const LOCK_TTL_MS = 5 * 60 * 1000;
+
+export type RollupDay = ContentSummary & {
+  day: string;
+  key: string;
+};
+
+export type RollupManifest = {
+  month: string;
+  createdAt: string;
+  /** Line count, size and checksum describe the uncompressed NDJSON. */
+  output: ContentSummary & {
+    key: string;
+    compression: "gzip";
+    storedBytes: number;
+  };
+  days: RollupDay[];
+};
+
+export type RollupResult = {
+  ok: boolean;
+  month: string;
+  outKey: string;
+  manifestKey: string;
+  message?: string;
+  inProgress: boolean;
+  written: boolean;
+  verified: boolean;
+  days: number;
+  lines: number;
+  /** Days in the month that still have per-event objects awaiting compaction. */
+  uncompacted: string[];
+};
+
+export const monthlyKey = (month: string) => `logs/monthly/${month}.ndjson.gz`;
+export const monthlyManifestKey = (month: string) => `logs/monthly/${month}.manifest.json`;
+const lockKey = (month: string) => `logs/monthly/${month}.lock`;
+
+export function isMonth(value: string): boolean {
+  return MONTH_PATTERN.test(value);
+}
+
+export async function readRollupManifest(
+  store: LogStore,
+  month: string
+): Promise<RollupManifest | null> {
+  const raw = await store.getText(monthlyManifestKey(month));
+  if (!raw) {
+    return null;
+  }
+  try {
+    return JSON.parse(raw) as RollupManifest;
+  } catch {
+    console.warn("[rollup] ignoring unreadable manifest", { month });
+    return null;
+  }
+}
+
+export async function rollupMonth(
+  store: LogStore,
+  month: string
+): Promise<RollupResult> {
+  const base = {
+    month,
+    outKey: monthlyKey(month),
+    manifestKey: monthlyManifestKey(month),
+  };
+
+  const lease = await acquireLease(store, lockKey(month), LOCK_TTL_MS);
+  if (!lease) {
+    return {
+      ...base,
+      ok: true,
+      message: "Rollup already in progress",
+      inProgress: true,
+      written: false,
+      verified: false,
+      days: 0,
+      lines: 0,
+      uncompacted: [],
+    };
+  }
+
+  try {
+    const days = daysInMonth(month);
+    const uncompacted = await uncompactedDays(store, days);
+    const progress = { ...base, inProgress: false, uncompacted };
+
+    const included: RollupDay[] = [];
+    const chunks: string[] = [];
+    for (const day of days) {
+      const key = await findDailyFile(store, day);
+      if (!key) continue;
+      const text = await readNdjson(store, key);
+      if (text === null) continue;
+      included.push({ day, key, ...describe(text) });
+      chunks.push(text);
+    }
+
+    if (included.length === 0) {
+      await store.delete([base.outKey, base.manifestKey]);
+      return {
+        ...progress,
+        ok: true,
+        message: "No daily files",
+        written: false,
+        verified: false,
+        days: 0,
+        lines: 0,
+      };
+    }
+
+    const body = chunks.join("");
+    const expected = describe(body);
+    const encoded = encodeNdjson(body, "gzip");
+    await store.put(base.outKey, encoded, { contentType: ndjsonContentType("gzip") });
+
+    const written = await readNdjson(store, base.outKey).catch(() => null);
+    if (written === null || !matches(describe(written), expected)) {
+      console.error("[rollup] verification failed", { month });
+      return {
+        ...progress,
+        ok: false,
+        message: "Verification failed; call again to retry",
+        written: true,
+        verified: false,
+        days: included.length,
+        lines: expected.lines,
+      };
+    }
+
+    const manifest: RollupManifest = {
+      month,
+      createdAt: new Date().toISOString(),
+      output: {
+        key: base.outKey,
+        ...expected,
+        compression: "gzip",
+        storedBytes: encoded.byteLength,
+      },
+      days: included,
+    };
+    await store.put(base.manifestKey, JSON.stringify(manifest, null, 2), {
+      contentType: "application/json",
+    });
+
+    return {
+      ...progress,
+      ok: true,
+      written: true,
+      verified: true,
+      days: included.length,
+      lines: expected.lines,
+    };
+  } finally {
+    await lease.release();
+  }
+}
+
+function daysInMonth(month: string): string[] {
+  const [year, m] = month.split("-").map(Number);
+  const last = new Date(Date.UTC(year, m, 0)).getUTCDate();
+  return daysInRange(`${month}-01`, `${month}-${last.toString().padStart(2, "0")}`);
+}
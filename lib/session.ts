@@ -0,0 +1,139 @@
+import { createHmac, randomUUID, timingSafeEqual } from "node:crypto";
+
+/**
+ * The anonymous per-browser identity issued by /api/create-session in the
+ * `chatkit_session_id` cookie. It is passed upstream as the ChatKit `user`
+ * and stamped on every logged record so a user's data can be found again.
+ *
+ * The cookie is `<id>.<issued at, unix seconds>.<HMAC-SHA256>`, signed with
+ * SESSION_SECRET. SESSION_SECRET may list several comma separated secrets:
+ * the first signs new cookies and all of them verify, so a secret can be
+ * rotated by putting the new one first and dropping the old one once its
+ * cookies have expired. Cookies that are unsigned, forged, signed with an
+ * unknown secret or older than SESSION_MAX_AGE_SECONDS are ignored and
+ * /api/create-session issues a new identity.
+ */
+
+export const SESSION_COOKIE_NAME = "chatkit_session_id";
+export const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 30; // 30 days
+
+/** Valid cookies older than this are re-issued for the same id. */
+const RENEW_AFTER_SECONDS = 60 * 60 * 24 * 7;
+/** Tolerated clock skew between instances for `issued at`. */
+const MAX_SKEW_SECONDS = 5 * 60;
+const SESSION_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+export type SessionIdentity = {
+  id: string;
+  /** Unix seconds at which the cookie was signed. */
+  issuedAt: number;
+};
+
+export function getCookieValue(
+  cookieHeader: string | null,
+  name: string
+): string | null {
+  if (!cookieHeader) {
+    return null;
+  }
+
+  const cookies = cookieHeader.split(";");
+  for (const cookie of cookies) {
+    const [rawName, ...rest] = cookie.split("=");
+    if (!rawName || rest.length === 0) {
+      continue;
+    }
+    if (rawName.trim() === name) {
+      return rest.join("=").trim();
+    }
+  }
+  return null;
+}
+
+/** The verified identity carried by `request`, or null when it has none. */
+export function readSession(request: Request): SessionIdentity | null {
+  const raw = getCookieValue(request.headers.get("cookie"), SESSION_COOKIE_NAME);
+  return raw ? verifySessionCookie(raw) : null;
+}
+
+/** The verified session id carried by `request`, or null when it has none. */
+export function readSessionId(request: Request): string | null {
+  return readSession(request)?.id ?? null;
+}
+
+/** Whether SESSION_SECRET holds at least one secret to sign cookies with. */
+export function hasSessionSecret(): boolean {
+  return sessionSecrets().length > 0;
+}
+
+/** Whether a verified identity should get a freshly signed cookie. */
+export function needsRenewal(session: SessionIdentity, now = Date.now()): boolean {
+  return Math.floor(now / 1000) - session.issuedAt > RENEW_AFTER_SECONDS;
+}
+
+/**
+ * A `Set-Cookie` value carrying `id` (a new random id by default), signed
+ * now. Throws when SESSION_SECRET is not set.
+ */
+export function issueSessionCookie(id: string = randomUUID()): { id: string; cookie: string } {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const secret = sessionSecrets()[0];
+  if (!secret) {
+    throw new Error("Set SESSION_SECRET to issue session cookies");
+  }
+  const value = `${id}.${issuedAt}.${signature(secret, id, issuedAt)}`;
+  const attributes = [
+    `${SESSION_COOKIE_NAME}=${value}`,
+    "Path=/",
+    `Max-Age=${SESSION_MAX_AGE_SECONDS}`,
+    "HttpOnly",
+    "SameSite=Lax",
+  ];
+
+  if (process.env.NODE_ENV === "production") {
+    attributes.push("Secure");
+  }
+  return { id, cookie: attributes.join("; ") };
+}
+
+/* -------------------------------------------------------------------------- */
+
+function sessionSecrets(): string[] {
+  return (process.env.SESSION_SECRET ?? "")
+    .split(",")
+    .map((secret) => secret.trim())
+    .filter(Boolean);
+}
+
+function signature(secret: string, id: string, issuedAt: number): string {
+  return createHmac("sha256", secret).update(`${id}.${issuedAt}`).digest("base64url");
+}
+
+function verifySessionCookie(value: string, now = Date.now()): SessionIdentity | null {
+  const [id = "", issued = "", sig = "", ...rest] = decodeCookie(value).split(".");
+  const issuedAt = Number(issued);
+  if (rest.length > 0 || !SESSION_ID.test(id) || !/^\d+$/.test(issued)) {
+    return null;
+  }
+  const age = Math.floor(now / 1000) - issuedAt;
+  if (age > SESSION_MAX_AGE_SECONDS || age < -MAX_SKEW_SECONDS) {
+    return null;
+  }
+
+  const actual = Buffer.from(sig);
+  for (const secret of sessionSecrets()) {
+    const expected = Buffer.from(signature(secret, id, issuedAt));
+    if (expected.length === actual.length && timingSafeEqual(expected, actual)) {
+      return { id, issuedAt };
+    }
+  }
+  return null;
+}
+
+function decodeCookie(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
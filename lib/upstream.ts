@@ -0,0 +1,222 @@
+/**
+ * Resilience for calls to the ChatKit API.
+ *
+ * `fetchUpstream` retries 429 and 5xx responses and network errors a bounded
+ * number of times with full-jitter exponential backoff. A `Retry-After`
+ * header sets the minimum wait; when it is longer than the remaining time
+ * budget the call gives up at once rather than holding the request open.
+ *
+ * A circuit breaker, kept in module scope and so shared by every request
+ * served by this instance, opens after repeated failed calls and fails fast
+ * until its cool-down ends; then one trial call decides whether it closes.
+ *
+ * Failures surface as UpstreamError with a stable `code` for the UI.
+ */
+
+export type UpstreamErrorCode = "upstream_unavailable" | "rate_limited" | "misconfigured";
+
+export class UpstreamError extends Error {
+  constructor(
+    readonly code: UpstreamErrorCode,
+    message: string,
+    /** HTTP status to answer the browser with. */
+    readonly status: number,
+    /** Seconds the caller should wait before trying again, when known. */
+    readonly retryAfterSeconds: number | null = null,
+    /** Parsed body of the last upstream response, for logging. */
+    readonly details: unknown = null
+  ) {
+    super(message);
+    this.name = "UpstreamError";
+  }
+}
+
+export type UpstreamOptions = {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** Total time, waits included, after which no further attempt is made. */
+  budgetMs?: number;
+  attemptTimeoutMs?: number;
+  breaker?: CircuitBreaker;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+  now?: () => number;
+};
+
+const DEFAULT_CHATKIT_BASE = "https://api.openai.com";
+
+/** The ChatKit session endpoint, under CHATKIT_API_BASE when set. */
+export function chatkitSessionsUrl(): string {
+  return `${process.env.CHATKIT_API_BASE ?? DEFAULT_CHATKIT_BASE}/v1/chatkit/sessions`;
+}
+
+const DEFAULTS = {
+  maxAttempts: 3,
+  baseDelayMs: 300,
+  maxDelayMs: 3_000,
+  budgetMs: 10_000,
+  attemptTimeoutMs: 8_000,
+};
+
+/* -------------------------------------------------------------------------- */
+/* Circuit breaker                                                            */
+/* -------------------------------------------------------------------------- */
+
+export type CircuitBreaker = {
+  /** Null when a call may go ahead, else ms until the breaker lets one through. */
+  blockedFor(): number | null;
+  success(): void;
+  failure(): void;
+};
+
+export function createCircuitBreaker({
+  failureThreshold = 5,
+  cooldownMs = 30_000,
+  now = () => Date.now(),
+}: {
+  failureThreshold?: number;
+  cooldownMs?: number;
+  now?: () => number;
+} = {}): CircuitBreaker {
+  let failures = 0;
+  let openUntil = 0;
+  let trialRunning = false;
+
+  return {
+    blockedFor() {
+      if (failures < failureThreshold) return null;
+      const wait = openUntil - now();
+      if (wait > 0) return wait;
+      // Half open: a single trial call decides.
+      if (trialRunning) return cooldownMs;
+      trialRunning = true;
+      return null;
+    },
+    success() {
+      failures = 0;
+      trialRunning = false;
+    },
+    failure() {
+      failures += 1;
+      trialRunning = false;
+      if (failures >= failureThreshold) openUntil = now() + cooldownMs;
+    },
+  };
+}
+
+const sharedBreaker = createCircuitBreaker();
+
+/* -------------------------------------------------------------------------- */
+/* Fetch with retries                                                         */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * The first successful (2xx) response. Throws UpstreamError when the breaker
+ * is open, retries run out, or upstream rejects the request itself (other
+ * 4xx, reported as `misconfigured`).
+ */
+export async function fetchUpstream(
+  url: string,
+  init: RequestInit,
+  options: UpstreamOptions = {}
+): Promise<Response> {
+  const {
+    maxAttempts,
+    baseDelayMs,
+    maxDelayMs,
+    budgetMs,
+    attemptTimeoutMs,
+    breaker = sharedBreaker,
+    sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)),
+    random = Math.random,
+    now = () => Date.now(),
+  } = { ...DEFAULTS, ...options };
+
+  const blocked = breaker.blockedFor();
+  if (blocked !== null) {
+    throw new UpstreamError(
+      "upstream_unavailable",
+      "ChatKit is temporarily unavailable",
+      503,
+      Math.ceil(blocked / 1000)
+    );
+  }
+
+  const deadline = now() + budgetMs;
+  let last: UpstreamError | null = null;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    let response: Response | null = null;
+    try {
+      response = await fetch(url, {
+        ...init,
+        signal: AbortSignal.timeout(Math.max(1, Math.min(attemptTimeoutMs, deadline - now()))),
+      });
+    } catch (error) {
+      last = new UpstreamError(
+        "upstream_unavailable",
+        "ChatKit could not be reached",
+        503,
+        null,
+        error instanceof Error ? error.message : null
+      );
+    }
+
+    let retryAfterMs: number | null = null;
+    if (response) {
+      if (response.ok) {
+        breaker.success();
+        return response;
+      }
+      const body = (await response.json().catch(() => null)) as unknown;
+      if (response.status !== 429 && response.status < 500) {
+        // The request itself is wrong: bad key, unknown workflow, bad payload.
+        breaker.success();
+        throw new UpstreamError(
+          "misconfigured",
+          `ChatKit rejected the request (${response.status})`,
+          500,
+          null,
+          body
+        );
+      }
+      retryAfterMs = parseRetryAfter(response.headers.get("retry-after"), now());
+      const retryAfterSeconds = retryAfterMs === null ? null : Math.ceil(retryAfterMs / 1000);
+      last =
+        response.status === 429
+          ? new UpstreamError(
+              "rate_limited",
+              "ChatKit is rate limiting requests",
+              429,
+              retryAfterSeconds,
+              body
+            )
+          : new UpstreamError(
+              "upstream_unavailable",
+              `ChatKit returned ${response.status}`,
+              503,
+              retryAfterSeconds,
+              body
+            );
+    }
+
+    if (attempt === maxAttempts) break;
+    const backoff = random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+    const wait = Math.max(backoff, retryAfterMs ?? 0);
+    if (now() + wait >= deadline) break;
+    await sleep(wait);
+  }
+
+  breaker.failure();
+  throw last ?? new UpstreamError("upstream_unavailable", "ChatKit could not be reached", 503);
+}
+
+/** Milliseconds from a `Retry-After` header (delta seconds or HTTP date). */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1000;
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
@@ -0,0 +1,89 @@
+import { WORKFLOW_ID } from "@/lib/config";
+
+/**
+ * The workflows /api/create-session may start sessions for. Browsers pick
+ * one by name; ids never come from the client unchecked.
+ *
+ *  - CHATKIT_WORKFLOWS=bangla-default=wf_...,field-worker=wf_...
+ *  - CHATKIT_DEFAULT_WORKFLOW=<name> used when the request names none
+ *    (default: the first entry)
+ *
+ * Without CHATKIT_WORKFLOWS the list is NEXT_PUBLIC_CHATKIT_WORKFLOW_ID under
+ * the name "default", as before.
+ */
+
+export type WorkflowAllowlist = {
+  /** Friendly name → workflow id, in configuration order. */
+  workflows: Map<string, string>;
+  defaultName: string | null;
+};
+
+export type WorkflowChoice =
+  | { ok: true; name: string; id: string }
+  | { ok: false; status: 403 | 500; error: string };
+
+const NAME = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
+const LEGACY_NAME = "default";
+
+/** Throws when CHATKIT_WORKFLOWS or CHATKIT_DEFAULT_WORKFLOW is malformed. */
+export function resolveWorkflowAllowlist(): WorkflowAllowlist {
+  const workflows = new Map<string, string>();
+  const configured = process.env.CHATKIT_WORKFLOWS?.trim();
+
+  if (configured) {
+    for (const entry of configured.split(",")) {
+      if (!entry.trim()) continue;
+      const [name = "", id = ""] = entry.split("=").map((part) => part.trim());
+      if (!NAME.test(name) || !id.startsWith("wf_")) {
+        throw new Error(`Invalid CHATKIT_WORKFLOWS entry "${entry.trim()}" (expected name=wf_...)`);
+      }
+      workflows.set(name, id);
+    }
+  } else if (WORKFLOW_ID && !WORKFLOW_ID.startsWith("wf_replace")) {
+    workflows.set(LEGACY_NAME, WORKFLOW_ID);
+  }
+
+  const requestedDefault = process.env.CHATKIT_DEFAULT_WORKFLOW?.trim();
+  if (requestedDefault && !workflows.has(requestedDefault)) {
+    throw new Error(`CHATKIT_DEFAULT_WORKFLOW "${requestedDefault}" is not in CHATKIT_WORKFLOWS`);
+  }
+  const defaultName = requestedDefault || (workflows.keys().next().value ?? null);
+  return { workflows, defaultName };
+}
+
+/**
+ * The workflow for a request. A name must be on the list; an id is only
+ * accepted when it is one of the listed ids, for clients that still send one.
+ */
+export function chooseWorkflow(
+  allowlist: WorkflowAllowlist,
+  requested: { name?: string | null; id?: string | null }
+): WorkflowChoice {
+  if (allowlist.workflows.size === 0) {
+    return {
+      ok: false,
+      status: 500,
+      error: "No workflows configured. Set CHATKIT_WORKFLOWS or NEXT_PUBLIC_CHATKIT_WORKFLOW_ID.",
+    };
+  }
+
+  const name = requested.name?.trim();
+  if (name) {
+    const id = allowlist.workflows.get(name);
+    return id ? { ok: true, name, id } : { ok: false, status: 403, error: "Workflow not allowed" };
+  }
+
+  const id = requested.id?.trim();
+  if (id) {
+    for (const [listedName, listedId] of allowlist.workflows) {
+      if (listedId === id) return { ok: true, name: listedName, id };
+    }
+    return { ok: false, status: 403, error: "Workflow not allowed" };
+  }
+
+  const fallback = allowlist.defaultName;
+  const fallbackId = fallback ? allowlist.workflows.get(fallback) : undefined;
+  return fallback && fallbackId
+    ? { ok: true, name: fallback, id: fallbackId }
+    : { ok: false, status: 403, error: "Workflow not allowed" };
+}
@@ -0,0 +1,251 @@
+/**
+ * A stand-in for the ChatKit API, for running the app without network.
+ *
+ *   npm run mock:chatkit
+ *   CHATKIT_API_BASE=http://localhost:8787 OPENAI_API_KEY=sk-mock npm run dev
+ *
+ * POST /v1/chatkit/sessions answers like the real endpoint, or fails in one
+ * of the scripted ways below. Any other POST under /v1/chatkit replies with
+ * a server-sent event stream echoing the user's message as one assistant
+ * message, in ChatKit's `thread.item.*` events that lib/capture/parse.ts
+ * reads (text deltas, then the finished item).
+ *
+ * Scenarios: success, unauthorized (401), rate_limited (429 with
+ * Retry-After), server_error (500), malformed (200 with a truncated JSON
+ * body) and slow (success after MOCK_CHATKIT_SLOW_MS, by default longer than
+ * lib/upstream's per-attempt timeout). A request uses, in order of
+ * precedence: its `X-Mock-Scenario` header or `?scenario=`, the next entry
+ * of the queue, then the default.
+ *
+ *  - MOCK_CHATKIT_PORT      (default 8787; 0 picks a free port)
+ *  - MOCK_CHATKIT_SCENARIO  default scenario (default success)
+ *  - MOCK_CHATKIT_QUEUE     comma separated scenarios used once each first,
+ *                           e.g. rate_limited,rate_limited,success
+ *  - MOCK_CHATKIT_SLOW_MS   (default 9000)
+ *  - MOCK_CHATKIT_TOKEN_MS  pause between streamed deltas (default 40)
+ *
+ * The queue and default can be changed while running, and the requests
+ * received inspected, through the control endpoints:
+ *
+ *  - POST   /__mock/scenario  {"default"?: "...", "queue"?: ["..."]}
+ *  - GET    /__mock/requests  the last 100 requests, newest last
+ *  - DELETE /__mock/requests
+ */
+
+import { randomUUID } from "node:crypto";
+import { createServer } from "node:http";
+
+const SCENARIOS = new Set([
+  "success",
+  "unauthorized",
+  "rate_limited",
+  "server_error",
+  "malformed",
+  "slow",
+]);
+const MAX_RECORDED = 100;
+const SECRET_LIFETIME_SECONDS = 10 * 60;
+
+const port = Number(process.env.MOCK_CHATKIT_PORT ?? 8787);
+const slowMs = Number(process.env.MOCK_CHATKIT_SLOW_MS ?? 9_000);
+const tokenMs = Number(process.env.MOCK_CHATKIT_TOKEN_MS ?? 40);
+
+let defaultScenario = scenarioOrThrow(process.env.MOCK_CHATKIT_SCENARIO?.trim() || "success");
+let queue = (process.env.MOCK_CHATKIT_QUEUE ?? "")
+  .split(",")
+  .map((name) => name.trim())
+  .filter(Boolean)
+  .map(scenarioOrThrow);
+const recorded = [];
+
+const server = createServer((req, res) => {
+  handle(req, res).catch((error) => {
+    console.error("[mock-chatkit]", error);
+    if (!res.headersSent) sendJson(res, 500, { error: { message: "Mock server error" } });
+    else res.end();
+  });
+});
+
+// Port 0 picks a free port; the line below reports the one in use.
+server.listen(port, () => {
+  const { port: listening } = server.address();
+  console.info(
+    `[mock-chatkit] listening on http://localhost:${listening} (default ${defaultScenario}` +
+      (queue.length > 0 ? `, queue ${queue.join(",")}` : "") +
+      ")"
+  );
+});
+
+for (const signal of ["SIGINT", "SIGTERM"]) {
+  process.on(signal, () => server.close(() => process.exit(0)));
+}
+
+/* -------------------------------------------------------------------------- */
+
+async function handle(req, res) {
+  const url = new URL(req.url ?? "/", `http://localhost:${port}`);
+  const body = await readBody(req);
+
+  if (url.pathname === "/__mock/scenario" && req.method === "POST") {
+    return configure(res, body);
+  }
+  if (url.pathname === "/__mock/requests") {
+    if (req.method === "DELETE") recorded.length = 0;
+    return sendJson(res, 200, { requests: recorded });
+  }
+
+  if (req.method !== "POST" || !url.pathname.startsWith("/v1/chatkit")) {
+    return sendJson(res, 404, { error: { message: `No mock for ${req.method} ${url.pathname}` } });
+  }
+
+  const scenario = pickScenario(req, url);
+  record(req, url, body, scenario);
+  if (!/^Bearer \S+/.test(req.headers.authorization ?? "")) {
+    return sendError(res, 401, "Missing bearer authentication in header", "invalid_api_key");
+  }
+
+  switch (scenario) {
+    case "unauthorized":
+      return sendError(res, 401, "Incorrect API key provided: sk-mock", "invalid_api_key");
+    case "rate_limited":
+      res.setHeader("Retry-After", "1");
+      return sendError(res, 429, "Rate limit reached for requests", "rate_limit_exceeded");
+    case "server_error":
+      return sendError(res, 500, "The server had an error while processing your request", null);
+    case "malformed":
+      res.writeHead(200, { "Content-Type": "application/json" });
+      return res.end('{"id": "cksess_mock", "client_secret": "ek_mock_');
+    case "slow":
+      await sleep(slowMs);
+      if (res.destroyed) return;
+      break;
+  }
+
+  if (url.pathname === "/v1/chatkit/sessions") {
+    return sendJson(res, 200, session(parseJson(body)));
+  }
+  return stream(res, replyTo(parseJson(body)));
+}
+
+function configure(res, body) {
+  const payload = parseJson(body) ?? {};
+  try {
+    if (payload.default !== undefined) defaultScenario = scenarioOrThrow(payload.default);
+    if (payload.queue !== undefined) {
+      if (!Array.isArray(payload.queue)) throw new Error("queue must be an array");
+      queue = payload.queue.map(scenarioOrThrow);
+    }
+  } catch (error) {
+    return sendJson(res, 400, { error: { message: error.message } });
+  }
+  return sendJson(res, 200, { default: defaultScenario, queue });
+}
+
+function pickScenario(req, url) {
+  const requested = req.headers["x-mock-scenario"] ?? url.searchParams.get("scenario");
+  if (typeof requested === "string" && SCENARIOS.has(requested)) return requested;
+  return queue.shift() ?? defaultScenario;
+}
+
+function session(payload) {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    id: `cksess_${randomUUID().replace(/-/g, "")}`,
+    object: "chatkit.session",
+    client_secret: `ek_mock_${randomUUID().replace(/-/g, "")}`,
+    expires_at: now + SECRET_LIFETIME_SECONDS,
+    workflow: payload?.workflow ?? null,
+    user: payload?.user ?? null,
+    chatkit_configuration: payload?.chatkit_configuration ?? null,
+  };
+}
+
+/** The first user message of a request, in any of the shapes capture reads. */
+function replyTo(payload) {
+  const text = userText(payload?.input ?? payload?.params?.input, payload?.messages);
+  return text ? `You said: ${text}` : "Hello from the mock ChatKit server.";
+}
+
+/** ChatKit's `params.input.content` parts, or an OpenAI-style input/messages. */
+function userText(input, messages) {
+  if (typeof input === "string") return input;
+  if (Array.isArray(input?.content)) return partsText(input.content);
+  const list = Array.isArray(input) ? input : messages;
+  const content = Array.isArray(list) ? list.find((m) => m?.role === "user")?.content : null;
+  if (typeof content === "string") return content;
+  return Array.isArray(content) ? partsText(content) : "";
+}
+
+function partsText(parts) {
+  return parts
+    .filter((part) => typeof part?.text === "string")
+    .map((part) => part.text)
+    .join("");
+}
+
+async function stream(res, text) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  const item = { type: "assistant_message", id: `msg_mock_${randomUUID()}`, content: [] };
+  const send = (event) => res.write(`data: ${JSON.stringify(event)}\n\n`);
+  send({ type: "thread.item.added", item });
+  for (const word of text.match(/\S+\s*/g) ?? []) {
+    if (res.destroyed) return;
+    send({
+      type: "thread.item.updated",
+      item_id: item.id,
+      update: { type: "assistant_message.content_part.text_delta", content_index: 0, delta: word },
+    });
+    await sleep(tokenMs);
+  }
+  send({ type: "thread.item.done", item: { ...item, content: [{ type: "output_text", text }] } });
+  res.end();
+}
+
+function record(req, url, body, scenario) {
+  recorded.push({
+    at: new Date().toISOString(),
+    method: req.method,
+    path: url.pathname,
+    scenario,
+    body: parseJson(body) ?? body,
+  });
+  if (recorded.length > MAX_RECORDED) recorded.splice(0, recorded.length - MAX_RECORDED);
+}
+
+function sendError(res, status, message, code) {
+  return sendJson(res, status, { error: { message, type: "invalid_request_error", code } });
+}
+
+function sendJson(res, status, payload) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(payload));
+}
+
+function scenarioOrThrow(name) {
+  if (!SCENARIOS.has(name)) {
+    throw new Error(`Unknown scenario "${name}" (expected one of ${[...SCENARIOS].join(", ")})`);
+  }
+  return name;
+}
+
+async function readBody(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+function parseJson(text) {
+  try {
+    return text ? JSON.parse(text) : null;
+  } catch {
+    return null;
+  }
+}
+
+function sleep(ms) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}